@@ -0,0 +1,188 @@
+import { formatCoords, getDiagramHeight, getDiagramWidth } from './diagram.js'
+import {
+    applyDeductions, CellDomain, copyDomains, createDomains, Domains, formatTRoom,
+    getTRoomCandidateLTCoords, PropagationContext, propagateProjections, searchDomains
+} from './propagation.js'
+import { get4DirectionCoords, getTRoomTileCoords } from './rules.js'
+import { createSearchState, isSearchStopped, SearchState } from './search.js'
+import { Coordinate, Projection, RuleViolation, TileType } from './types.js'
+
+function collectLineViolations(context: PropagationContext, line_name: string,
+    coords: readonly Coordinate[], projection: number): RuleViolation[] {
+    const tiles = coords.map(coord => context.diagram[coord.x][coord.y])
+    const number_of_walls = tiles.filter(tile => tile === TileType.WALL).length
+    const number_of_free_tiles = tiles.filter(
+        tile => tile !== TileType.TREASURE && tile !== TileType.MONSTER && tile !== TileType.FLOOR).length
+
+    if (number_of_walls > projection) {
+        return [{
+            rule: 'projections',
+            coords: coords.filter(coord => context.diagram[coord.x][coord.y] === TileType.WALL),
+            message: `${line_name} has ${number_of_walls} walls placed, more than its projection ${projection}.`
+        }]
+    }
+
+    if (projection > number_of_free_tiles) {
+        return [{
+            rule: 'projections',
+            coords: [],
+            message: `${line_name} needs ${projection} walls, but only ${number_of_free_tiles} of its tiles are free of treasures, monsters and floors.`
+        }]
+    }
+
+    return []
+}
+
+function getSum(projection: Projection): number {
+    return projection.reduce((pre, cur) => pre + cur, 0)
+}
+
+function collectProjectionUnsatisfiabilities(context: PropagationContext): RuleViolation[] {
+    const violations: RuleViolation[] = []
+    const row_sum = getSum(context.row_projection)
+    const column_sum = getSum(context.column_projection)
+
+    // Both projections count the same walls.
+    if (row_sum !== column_sum) {
+        violations.push({
+            rule: 'projections',
+            coords: [],
+            message: `Projections of rows sum to ${row_sum}, but projections of columns sum to ${column_sum}.`
+        })
+    }
+
+    for (let row_i = 0; row_i < context.row_projection.length; row_i += 1) {
+        violations.push(...collectLineViolations(context, `Row ${row_i + 1}`,
+            context.column_projection.map((_, column_i) => ({ x: row_i + 1, y: column_i + 1 })),
+            context.row_projection[row_i]))
+    }
+
+    for (let column_i = 0; column_i < context.column_projection.length; column_i += 1) {
+        violations.push(...collectLineViolations(context, `Column ${column_i + 1}`,
+            context.row_projection.map((_, row_i) => ({ x: row_i + 1, y: column_i + 1 })),
+            context.column_projection[column_i]))
+    }
+
+    return violations
+}
+
+function collectMonsterUnsatisfiabilities(context: PropagationContext, domains: Domains): RuleViolation[] {
+    const violations: RuleViolation[] = []
+
+    for (const monster_coord of context.monster_coords) {
+        const around_coords = get4DirectionCoords(monster_coord.x, monster_coord.y)
+        const number_of_possible_exits = around_coords.filter(
+            coord => domains[coord.x][coord.y] !== CellDomain.WALL).length
+        const floor_coords = around_coords.filter(coord => domains[coord.x][coord.y] === CellDomain.FLOOR)
+
+        if (number_of_possible_exits === 0) {
+            violations.push({
+                rule: 'monsters',
+                coords: [monster_coord],
+                message: `Monster at ${formatCoords([monster_coord])} is walled in, so it can't be in a dead end.`
+            })
+        } else if (floor_coords.length >= 2) {
+            violations.push({
+                rule: 'monsters',
+                coords: [monster_coord, ...floor_coords],
+                message: `Monster at ${formatCoords([monster_coord])} must have floors at ${formatCoords(floor_coords)}, so it can't be in a dead end.`
+            })
+        }
+    }
+
+    return violations
+}
+
+function collectTreasureUnsatisfiabilities(context: PropagationContext, domains: Domains): RuleViolation[] {
+    const violations: RuleViolation[] = []
+    const forced_rooms: { treasure_coord: Coordinate, lt_coord: Coordinate }[] = []
+
+    for (const treasure_coord of context.treasure_coords) {
+        const lt_coords = getTRoomCandidateLTCoords(treasure_coord, context, domains)
+
+        if (lt_coords.length === 0) {
+            violations.push({
+                rule: 'treasures',
+                coords: [treasure_coord],
+                message: `Treasure at ${formatCoords([treasure_coord])} fits in no treasure room.`
+            })
+        } else if (lt_coords.length === 1) {
+            forced_rooms.push({ treasure_coord: treasure_coord, lt_coord: lt_coords[0] })
+        }
+    }
+
+    for (let i = 0; i < forced_rooms.length; i += 1) {
+        const tile_ids = getTRoomTileCoords(forced_rooms[i].lt_coord.x, forced_rooms[i].lt_coord.y).map(
+            coord => `${coord.x},${coord.y}`)
+
+        for (let j = i + 1; j < forced_rooms.length; j += 1) {
+            const overlapping_coords = getTRoomTileCoords(forced_rooms[j].lt_coord.x, forced_rooms[j].lt_coord.y).filter(
+                coord => tile_ids.includes(`${coord.x},${coord.y}`))
+
+            if (overlapping_coords.length > 0) {
+                violations.push({
+                    rule: 'treasures',
+                    coords: overlapping_coords,
+                    message: `Treasures at ${formatCoords([forced_rooms[i].treasure_coord, forced_rooms[j].treasure_coord])} only fit in rooms ${formatTRoom(forced_rooms[i].lt_coord)} and ${formatTRoom(forced_rooms[j].lt_coord)}, which overlap.`
+                })
+            }
+        }
+    }
+
+    return violations
+}
+
+export function analyzeLevel(context: PropagationContext): RuleViolation[] {
+    const projection_violations = collectProjectionUnsatisfiabilities(context)
+
+    if (projection_violations.length > 0) {
+        return projection_violations
+    }
+
+    // The tiles decided by the projections alone make the checks of monsters and treasures stronger.
+    const domains = createDomains(context.diagram)
+    const deductions = propagateProjections(context, domains)
+
+    if (deductions === null || applyDeductions(deductions, domains) === null) {
+        return [{ rule: 'projections', coords: [], message: 'Projections of rows and columns contradict each other.' }]
+    }
+
+    return [
+        ...collectMonsterUnsatisfiabilities(context, domains),
+        ...collectTreasureUnsatisfiabilities(context, domains)
+    ]
+}
+
+export function getMarkContradiction(mark_coords: readonly Coordinate[]): RuleViolation {
+    return {
+        rule: 'marks',
+        coords: mark_coords,
+        message: `Marks at ${formatCoords(mark_coords)} contradict every solution.`
+    }
+}
+
+// The marks are the tiles of the domains which the context leaves empty. They contradict every solution
+// when no solution agrees with them, while the context alone still has one. Both searches share the budget.
+export function collectMarkContradictions(context: PropagationContext, domains: Domains,
+    search_state: SearchState = createSearchState()): RuleViolation[] {
+    const mark_coords: Coordinate[] = []
+
+    for (let x = 1; x < getDiagramHeight(context.diagram) - 1; x += 1) {
+        for (let y = 1; y < getDiagramWidth(context.diagram) - 1; y += 1) {
+            if (context.diagram[x][y] === TileType.EMPTY_SPACE && domains[x][y] !== CellDomain.UNKNOWN) {
+                mark_coords.push({ x: x, y: y })
+            }
+        }
+    }
+
+    if (mark_coords.length === 0) {
+        return []
+    }
+
+    if (searchDomains(context, copyDomains(domains), () => true, search_state) || isSearchStopped(search_state) ||
+        !searchDomains(context, createDomains(context.diagram), () => true, search_state)) {
+        return []
+    }
+
+    return [getMarkContradiction(mark_coords)]
+}
@@ -0,0 +1,150 @@
+import {
+    Bitboard, getBitboard, getCoordsBitboard, getDeadEndBitboard, getOpenBitboard,
+    hasBitboardHallway, isBitboardConnected, isBitboardProjectionsSatisfied, isBitboardSubset
+} from './bitboard.js'
+import { getDiagramHeight, getDiagramWidth, getProjectionsOfDiagram, getTreasureAndMonsterCoords } from './diagram.js'
+import { createRandom, generateDungeon, getRandomInteger } from './generator.js'
+import {
+    checkEmptySpacesConnectivity, checkHallways, checkMonstersAndDeadEnds,
+    checkTreasuresAndMonstersConnectivity, isSatisfiedProjections
+} from './rules.js'
+import { Coordinate, Diagram, Projection, TileType } from './types.js'
+
+interface BenchmarkSubject {
+    diagram: Diagram
+    row_projection: Projection
+    column_projection: Projection
+    treasure_coords: readonly Coordinate[]
+    monster_coords: readonly Coordinate[]
+    walls: Bitboard
+    open: Bitboard
+    monsters: Bitboard
+    treasures_and_monsters: Bitboard
+    empty_spaces: Bitboard
+}
+
+interface BenchmarkCheck {
+    name: string
+    runArray: (subject: BenchmarkSubject) => boolean
+    runBitboard: (subject: BenchmarkSubject) => boolean
+}
+
+export interface BenchmarkRecord {
+    name: string
+    array_ms: number
+    bitboard_ms: number
+    is_agreed: boolean
+}
+
+// The bitboards of walls are kept up to date while searching, so building them isn't timed.
+const BENCHMARK_CHECKS: readonly BenchmarkCheck[] = [
+    {
+        name: 'empty spaces connectivity',
+        runArray: subject => checkEmptySpacesConnectivity(subject.diagram),
+        runBitboard: subject => isBitboardConnected(subject.open, subject.open)
+    },
+    {
+        name: 'treasures and monsters connectivity',
+        runArray: subject => checkTreasuresAndMonstersConnectivity(
+            subject.treasure_coords, subject.monster_coords, subject.diagram),
+        runBitboard: subject => isBitboardConnected(subject.open, subject.treasures_and_monsters)
+    },
+    {
+        name: 'dead ends',
+        runArray: subject => checkMonstersAndDeadEnds(subject.monster_coords, subject.diagram),
+        runBitboard: subject => {
+            const dead_ends = getDeadEndBitboard(subject.walls, getDiagramWidth(subject.diagram))
+
+            return isBitboardSubset(subject.monsters, dead_ends) &&
+                subject.empty_spaces.every((row, x) => (row & dead_ends[x]) === 0)
+        }
+    },
+    {
+        name: 'hallways',
+        runArray: subject => checkHallways([], subject.diagram),
+        runBitboard: subject => !hasBitboardHallway(subject.empty_spaces)
+    },
+    {
+        name: 'projections',
+        runArray: subject => {
+            const [row_projection, column_projection] = getProjectionsOfDiagram(subject.diagram)
+
+            return isSatisfiedProjections(row_projection, column_projection,
+                subject.row_projection, subject.column_projection)
+        },
+        runBitboard: subject => isBitboardProjectionsSatisfied(subject.walls, getDiagramWidth(subject.diagram),
+            subject.row_projection, subject.column_projection)
+    }
+]
+
+function createBenchmarkSubject(diagram: Diagram, row_projection: Projection, column_projection: Projection): BenchmarkSubject {
+    const height = getDiagramHeight(diagram)
+    const width = getDiagramWidth(diagram)
+    const [treasure_coords, monster_coords] = getTreasureAndMonsterCoords(diagram)
+    const walls = getBitboard(diagram, [TileType.WALL])
+
+    return {
+        diagram: diagram,
+        row_projection: row_projection,
+        column_projection: column_projection,
+        treasure_coords: treasure_coords,
+        monster_coords: monster_coords,
+        walls: walls,
+        open: getOpenBitboard(walls, width),
+        monsters: getCoordsBitboard(monster_coords, height),
+        treasures_and_monsters: getCoordsBitboard([...treasure_coords, ...monster_coords], height),
+        empty_spaces: getBitboard(diagram, [TileType.EMPTY_SPACE]).map((row, x) => x === 0 || x === height - 1 ? 0 : row)
+    }
+}
+
+export function createBenchmarkSubjects(number_of_dungeons: number, height: number, width: number,
+    seed: number): BenchmarkSubject[] {
+    const random = createRandom(seed)
+    const subjects: BenchmarkSubject[] = []
+
+    for (let i = 0; i < number_of_dungeons; i += 1) {
+        const diagram = generateDungeon(height, width, random)
+        const [row_projection, column_projection] = getProjectionsOfDiagram(diagram)
+        const broken_diagram = diagram.map(row => Array.from(row))
+        const x = getRandomInteger(random, height) + 1
+        const y = getRandomInteger(random, width) + 1
+
+        // Flipping a tile breaks most of the rules, so that the checks fail as often as they pass.
+        switch (broken_diagram[x][y]) {
+            case TileType.WALL:
+                broken_diagram[x][y] = TileType.EMPTY_SPACE
+                break
+            case TileType.EMPTY_SPACE:
+                broken_diagram[x][y] = TileType.WALL
+                break
+            default: break
+        }
+
+        subjects.push(createBenchmarkSubject(diagram, row_projection, column_projection))
+        subjects.push(createBenchmarkSubject(broken_diagram, row_projection, column_projection))
+    }
+
+    return subjects
+}
+
+function getRunningTime(subjects: readonly BenchmarkSubject[], iterations: number,
+    run: (subject: BenchmarkSubject) => boolean): number {
+    const start_time = performance.now()
+
+    for (let i = 0; i < iterations; i += 1) {
+        for (const subject of subjects) {
+            run(subject)
+        }
+    }
+
+    return performance.now() - start_time
+}
+
+export function runBenchmark(subjects: readonly BenchmarkSubject[], iterations: number): BenchmarkRecord[] {
+    return BENCHMARK_CHECKS.map(check => ({
+        name: check.name,
+        array_ms: getRunningTime(subjects, iterations, check.runArray),
+        bitboard_ms: getRunningTime(subjects, iterations, check.runBitboard),
+        is_agreed: subjects.every(subject => check.runArray(subject) === check.runBitboard(subject))
+    }))
+}
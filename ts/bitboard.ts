@@ -0,0 +1,179 @@
+import { Coordinate, Diagram, Projection, TileType } from './types.js'
+
+// One integer for each row of the augmented diagram, where bit y stands for the tile in column y.
+export type Bitboard = number[]
+
+// The bits of a row have to fit in a 32-bit integer, so wider diagrams go back to the checks on arrays.
+export const MAX_BITBOARD_WIDTH = 32
+
+export function isBitboardWidth(width: number): boolean {
+    return width <= MAX_BITBOARD_WIDTH
+}
+
+export function getInnerMask(width: number): number {
+    return ((1 << (width - 1)) - 1) & ~1
+}
+
+export function getBitboard(diagram: Diagram, tile_types: readonly TileType[]): Bitboard {
+    return diagram.map(row => row.reduce((pre, tile, y) => tile_types.includes(tile) ? pre | (1 << y) : pre, 0))
+}
+
+export function getCoordsBitboard(coords: readonly Coordinate[], height: number): Bitboard {
+    const bitboard: Bitboard = new Array<number>(height).fill(0)
+
+    for (const coord of coords) {
+        setBit(bitboard, coord.x, coord.y)
+    }
+
+    return bitboard
+}
+
+export function getTRoomBitboard(treasure_room_lt_coords: readonly Coordinate[], height: number): Bitboard {
+    const bitboard: Bitboard = new Array<number>(height).fill(0)
+
+    for (const lt_coord of treasure_room_lt_coords) {
+        for (let x = lt_coord.x; x < lt_coord.x + 3; x += 1) {
+            bitboard[x] |= 0b111 << lt_coord.y
+        }
+    }
+
+    return bitboard
+}
+
+export function setBit(bitboard: Bitboard, x: number, y: number) {
+    bitboard[x] |= 1 << y
+}
+
+export function clearBit(bitboard: Bitboard, x: number, y: number) {
+    bitboard[x] &= ~(1 << y)
+}
+
+export function countBits(n: number): number {
+    // Add up the bits in pairs, then in nibbles, then in bytes.
+    n = n - ((n >>> 1) & 0x55555555)
+    n = (n & 0x33333333) + ((n >>> 2) & 0x33333333)
+
+    return Math.imul((n + (n >>> 4)) & 0x0F0F0F0F, 0x01010101) >>> 24
+}
+
+export function isBitboardSubset(bitboard: Bitboard, other_bitboard: Bitboard): boolean {
+    for (let x = 0; x < bitboard.length; x += 1) {
+        if ((bitboard[x] & ~other_bitboard[x]) !== 0) {
+            return false
+        }
+    }
+
+    return true
+}
+
+export function getOpenBitboard(walls: Bitboard, width: number): Bitboard {
+    const inner_mask = getInnerMask(width)
+
+    return walls.map((row, x) => x === 0 || x === walls.length - 1 ? 0 : ~row & inner_mask)
+}
+
+export function floodFill(open: Bitboard, x: number, y: number): Bitboard {
+    const filled: Bitboard = new Array<number>(open.length).fill(0)
+    let is_changed = true
+
+    filled[x] = (1 << y) & open[x]
+
+    // Spread to the neighbours of whole rows at once, until nothing changes.
+    while (is_changed) {
+        is_changed = false
+
+        for (let row_i = 1; row_i < open.length - 1; row_i += 1) {
+            const row = filled[row_i]
+            const spread_row = (row | (row << 1) | (row >> 1) | filled[row_i - 1] | filled[row_i + 1]) & open[row_i]
+
+            if (spread_row !== row) {
+                filled[row_i] = spread_row
+                is_changed = true
+            }
+        }
+    }
+
+    return filled
+}
+
+export function isBitboardConnected(open: Bitboard, targets: Bitboard): boolean {
+    for (let x = 0; x < open.length; x += 1) {
+        const row = targets[x] & open[x]
+
+        if (row === 0) {
+            continue
+        }
+
+        const filled = floodFill(open, x, 31 - Math.clz32(row & -row))
+
+        return targets.every((target_row, target_x) => (target_row & open[target_x] & ~filled[target_x]) === 0)
+    }
+
+    return true
+}
+
+export function getDeadEndBitboard(walls: Bitboard, width: number): Bitboard {
+    const inner_mask = getInnerMask(width)
+
+    return walls.map((row, x) => {
+        if (x === 0 || x === walls.length - 1) {
+            return 0
+        }
+
+        const up = walls[x - 1]
+        const down = walls[x + 1]
+        const left = row << 1
+        const right = row >> 1
+
+        // Exactly three of the four neighbours are walls.
+        return ((up & down & (left ^ right)) | (left & right & (up ^ down))) & inner_mask
+    })
+}
+
+export function hasBitboardHallway(hallways: Bitboard): boolean {
+    for (let x = 0; x < hallways.length - 1; x += 1) {
+        if ((hallways[x] & (hallways[x] >> 1) & hallways[x + 1] & (hallways[x + 1] >> 1)) !== 0) {
+            return true
+        }
+    }
+
+    return false
+}
+
+export function getBitboardRowCounts(walls: Bitboard, width: number): number[] {
+    const inner_mask = getInnerMask(width)
+
+    return walls.slice(1, -1).map(row => countBits(row & inner_mask))
+}
+
+export function getBitboardColumnCounts(walls: Bitboard, width: number): number[] {
+    const inner_mask = getInnerMask(width)
+    const counts = new Array<number>(width - 2).fill(0)
+
+    for (let x = 1; x < walls.length - 1; x += 1) {
+        let row = walls[x] & inner_mask
+
+        // Take off the lowest wall of the row until none is left.
+        while (row !== 0) {
+            const lowest_bit = row & -row
+
+            counts[30 - Math.clz32(lowest_bit)] += 1
+            row ^= lowest_bit
+        }
+    }
+
+    return counts
+}
+
+export function isBitboardProjectionsSatisfied(walls: Bitboard, width: number,
+    row_projection: Projection, column_projection: Projection): boolean {
+    const inner_mask = getInnerMask(width)
+
+    for (let x = 1; x < walls.length - 1; x += 1) {
+        if (countBits(walls[x] & inner_mask) !== row_projection[x - 1]) {
+            return false
+        }
+    }
+
+    return getBitboardColumnCounts(walls, width).every((count, column_i) => count === column_projection[column_i])
+}
@@ -0,0 +1,400 @@
+import { augmentRawDiagram } from './diagram.js'
+import { ParsingDiagnostic, ParsingResult } from './parser.js'
+import {
+    get4DirectionCoords, getTRoomLTCoords, getTRoomOuterTileCoords, getTRoomTileCoords,
+    isTRoomLTCoordAvailable, isTRoomTilesAvailable
+} from './rules.js'
+import { Coordinate, Diagram, Level, RawDiagram, TileType } from './types.js'
+
+export interface Cnf {
+    number_of_variables: number
+    clauses: number[][]
+    comments: string[]
+}
+
+export interface SatModel {
+    is_satisfiable: boolean
+    literals: readonly number[]
+}
+
+// The indexes of the rows and columns whose projections are left free.
+export interface RelaxedProjections {
+    row_indexes: readonly number[]
+    column_indexes: readonly number[]
+}
+
+interface CnfContext {
+    cnf: Cnf
+    diagram: Diagram
+    height: number
+    width: number
+    true_literal: number
+}
+
+// The walls take the first variables, row by row, so a model maps back to the diagram without the comments.
+export function getWallVariable(x: number, y: number, width: number): number {
+    return (x - 1) * width + y
+}
+
+function addVariable(cnf: Cnf): number {
+    cnf.number_of_variables += 1
+    return cnf.number_of_variables
+}
+
+function addClause(context: CnfContext, literals: readonly number[]) {
+    if (literals.includes(context.true_literal)) {
+        return
+    }
+
+    const clause = literals.filter(literal => literal !== -context.true_literal)
+
+    // A clause left with no literal can't be satisfied, which keeps it in the output as a false literal.
+    context.cnf.clauses.push(clause.length > 0 ? clause : [-context.true_literal])
+}
+
+function isInnerCoord(context: CnfContext, coord: Coordinate): boolean {
+    return coord.x >= 1 && coord.x <= context.height && coord.y >= 1 && coord.y <= context.width
+}
+
+function getWallLiteral(context: CnfContext, coord: Coordinate): number {
+    return isInnerCoord(context, coord) ? getWallVariable(coord.x, coord.y, context.width) : context.true_literal
+}
+
+function getInnerCoords(context: CnfContext): Coordinate[] {
+    const coords: Coordinate[] = []
+
+    for (let x = 1; x <= context.height; x += 1) {
+        for (let y = 1; y <= context.width; y += 1) {
+            coords.push({ x: x, y: y })
+        }
+    }
+
+    return coords
+}
+
+// A sequential counter, where counter[i][j] holds when at least j of the first i literals hold.
+function addExactlyK(context: CnfContext, literals: readonly number[], k: number) {
+    const false_literal = -context.true_literal
+    let previous_counter: number[] = [context.true_literal]
+
+    if (k > literals.length) {
+        addClause(context, [])
+        return
+    }
+
+    for (let i = 1; i <= literals.length; i += 1) {
+        const literal = literals[i - 1]
+        const counter: number[] = [context.true_literal]
+
+        for (let j = 1; j <= Math.min(i, k + 1); j += 1) {
+            const at_least_j = previous_counter[j] ?? false_literal
+            const at_least_j_1 = previous_counter[j - 1]
+            const variable = addVariable(context.cnf)
+
+            addClause(context, [-at_least_j, variable])
+            addClause(context, [-literal, -at_least_j_1, variable])
+            addClause(context, [-variable, at_least_j, literal])
+            addClause(context, [-variable, at_least_j, at_least_j_1])
+            counter.push(variable)
+        }
+
+        previous_counter = counter
+    }
+
+    if (k + 1 <= literals.length) {
+        addClause(context, [-previous_counter[k + 1]])
+    }
+
+    if (k >= 1) {
+        addClause(context, [previous_counter[k]])
+    }
+}
+
+function addProjectionClauses(context: CnfContext, level: Level, relaxed_projections: RelaxedProjections) {
+    for (let row_i = 0; row_i < context.height; row_i += 1) {
+        if (relaxed_projections.row_indexes.includes(row_i)) {
+            continue
+        }
+
+        addExactlyK(context, level.column_projection.map(
+            (_, column_i) => getWallVariable(row_i + 1, column_i + 1, context.width)), level.row_projection[row_i])
+    }
+
+    for (let column_i = 0; column_i < context.width; column_i += 1) {
+        if (relaxed_projections.column_indexes.includes(column_i)) {
+            continue
+        }
+
+        addExactlyK(context, level.row_projection.map(
+            (_, row_i) => getWallVariable(row_i + 1, column_i + 1, context.width)), level.column_projection[column_i])
+    }
+}
+
+function addTileClauses(context: CnfContext) {
+    for (const coord of getInnerCoords(context)) {
+        const wall_variable = getWallVariable(coord.x, coord.y, context.width)
+
+        switch (context.diagram[coord.x][coord.y]) {
+            case TileType.WALL:
+                addClause(context, [wall_variable])
+                break
+            case TileType.TREASURE:
+            case TileType.MONSTER:
+            case TileType.FLOOR:
+                addClause(context, [-wall_variable])
+                break
+            default: break
+        }
+    }
+}
+
+function addDeadEndClauses(context: CnfContext) {
+    for (const coord of getInnerCoords(context)) {
+        const tile = context.diagram[coord.x][coord.y]
+        const around_literals = get4DirectionCoords(coord.x, coord.y).map(around_coord => getWallLiteral(context, around_coord))
+
+        if (tile === TileType.MONSTER) {
+            // At least three walls means any two tiles around hold a wall, and at most three rules out four.
+            for (let i = 0; i < around_literals.length; i += 1) {
+                for (let j = i + 1; j < around_literals.length; j += 1) {
+                    addClause(context, [around_literals[i], around_literals[j]])
+                }
+            }
+
+            addClause(context, around_literals.map(literal => -literal))
+        } else if (tile === TileType.EMPTY_SPACE || tile === TileType.FLOOR) {
+            const wall_variable = getWallVariable(coord.x, coord.y, context.width)
+
+            // Only monsters live in dead ends, so an empty space never has exactly three walls around.
+            for (let i = 0; i < around_literals.length; i += 1) {
+                addClause(context, [
+                    wall_variable, around_literals[i],
+                    ...around_literals.filter((_, j) => j !== i).map(literal => -literal)
+                ])
+            }
+        }
+    }
+}
+
+function addTreasureRoomClauses(context: CnfContext): Map<string, number[]> {
+    const room_variables_per_tile = new Map<string, number[]>()
+
+    for (const coord of getInnerCoords(context)) {
+        if (context.diagram[coord.x][coord.y] !== TileType.TREASURE) {
+            continue
+        }
+
+        const room_variables: number[] = []
+
+        for (const lt_coord of getTRoomLTCoords(coord.x, coord.y)) {
+            if (!isTRoomLTCoordAvailable(lt_coord.x, lt_coord.y, context.diagram) ||
+                !isTRoomTilesAvailable(lt_coord.x, lt_coord.y, context.diagram)) {
+                continue
+            }
+
+            const room_variable = addVariable(context.cnf)
+            const outer_literals = getTRoomOuterTileCoords(lt_coord.x, lt_coord.y).map(
+                outer_coord => getWallLiteral(context, outer_coord))
+
+            context.cnf.comments.push(`Variable ${room_variable} is true when a treasure room has its top left tile at row ${lt_coord.x}, column ${lt_coord.y}.`)
+            room_variables.push(room_variable)
+
+            for (const tile_coord of getTRoomTileCoords(lt_coord.x, lt_coord.y)) {
+                const tile_id = `${tile_coord.x},${tile_coord.y}`
+
+                addClause(context, [-room_variable, -getWallVariable(tile_coord.x, tile_coord.y, context.width)])
+                room_variables_per_tile.set(tile_id, [...(room_variables_per_tile.get(tile_id) ?? []), room_variable])
+            }
+
+            // Eleven of the twelve tiles around are walls, which leaves the single exit.
+            for (let i = 0; i < outer_literals.length; i += 1) {
+                for (let j = i + 1; j < outer_literals.length; j += 1) {
+                    addClause(context, [-room_variable, outer_literals[i], outer_literals[j]])
+                }
+            }
+
+            addClause(context, [-room_variable, ...outer_literals.map(literal => -literal)])
+        }
+
+        addClause(context, room_variables)
+    }
+
+    return room_variables_per_tile
+}
+
+function addHallwayClauses(context: CnfContext, room_variables_per_tile: Map<string, number[]>) {
+    for (let x = 1; x < context.height; x += 1) {
+        for (let y = 1; y < context.width; y += 1) {
+            const space_coords = [{ x: x, y: y }, { x: x + 1, y: y }, { x: x, y: y + 1 }, { x: x + 1, y: y + 1 }]
+
+            if (space_coords.some(coord => context.diagram[coord.x][coord.y] === TileType.TREASURE ||
+                context.diagram[coord.x][coord.y] === TileType.MONSTER)) {
+                continue
+            }
+
+            // Tiles of a treasure room don't count as a hallway.
+            addClause(context, [
+                ...space_coords.map(coord => getWallVariable(coord.x, coord.y, context.width)),
+                ...new Set(space_coords.flatMap(coord => room_variables_per_tile.get(`${coord.x},${coord.y}`) ?? []))
+            ])
+        }
+    }
+}
+
+function addConnectivityClauses(context: CnfContext) {
+    const coords = getInnerCoords(context)
+    const cell_ids = new Map(coords.map((coord, i) => [`${coord.x},${coord.y}`, i]))
+    let is_any_floor_before = -context.true_literal
+    let reached_variables: number[] = []
+
+    // The root is the first tile which isn't a wall, so that only one tile can be the root.
+    for (const coord of coords) {
+        const wall_variable = getWallVariable(coord.x, coord.y, context.width)
+        const root_variable = addVariable(context.cnf)
+        const is_any_floor = addVariable(context.cnf)
+
+        addClause(context, [-root_variable, -wall_variable])
+        addClause(context, [-root_variable, -is_any_floor_before])
+        addClause(context, [-is_any_floor_before, is_any_floor])
+        addClause(context, [wall_variable, is_any_floor])
+        reached_variables.push(root_variable)
+        is_any_floor_before = is_any_floor
+    }
+
+    // A tile reached in d steps is reached in fewer steps, or has a neighbour reached in d - 1 steps.
+    for (let distance = 1; distance < coords.length; distance += 1) {
+        const next_reached_variables: number[] = []
+
+        for (let cell_i = 0; cell_i < coords.length; cell_i += 1) {
+            const coord = coords[cell_i]
+            const reached_variable = addVariable(context.cnf)
+            const around_ids = get4DirectionCoords(coord.x, coord.y).map(
+                around_coord => cell_ids.get(`${around_coord.x},${around_coord.y}`)).filter(
+                    (id): id is number => id !== undefined)
+
+            addClause(context, [-reached_variable, -getWallVariable(coord.x, coord.y, context.width)])
+            addClause(context, [
+                -reached_variable, reached_variables[cell_i],
+                ...around_ids.map(id => reached_variables[id])
+            ])
+            next_reached_variables.push(reached_variable)
+        }
+
+        reached_variables = next_reached_variables
+    }
+
+    for (let cell_i = 0; cell_i < coords.length; cell_i += 1) {
+        addClause(context, [getWallVariable(coords[cell_i].x, coords[cell_i].y, context.width), reached_variables[cell_i]])
+    }
+}
+
+// Without connectivity, a solver has to reject disconnected models by itself.
+export function encodeLevel(level: Level, is_encoding_connectivity: boolean = true,
+    relaxed_projections: RelaxedProjections = { row_indexes: [], column_indexes: [] }): Cnf {
+    const height = level.row_projection.length
+    const width = level.column_projection.length
+    const cnf: Cnf = {
+        number_of_variables: height * width,
+        clauses: [],
+        comments: [
+            `Dungeons&Diagrams level of ${height} rows and ${width} columns.`,
+            `Variable (x - 1) * ${width} + y is true when the tile at row x, column y is a wall.`
+        ]
+    }
+    const context: CnfContext = {
+        cnf: cnf,
+        diagram: augmentRawDiagram(level.raw_diagram),
+        height: height,
+        width: width,
+        true_literal: addVariable(cnf)
+    }
+
+    cnf.clauses.push([context.true_literal])
+    addTileClauses(context)
+    addProjectionClauses(context, level, relaxed_projections)
+    addDeadEndClauses(context)
+    addHallwayClauses(context, addTreasureRoomClauses(context))
+
+    if (is_encoding_connectivity) {
+        addConnectivityClauses(context)
+    }
+
+    return cnf
+}
+
+export function getDimacsText(cnf: Cnf): string {
+    return [
+        ...cnf.comments.map(comment => `c ${comment}`),
+        `p cnf ${cnf.number_of_variables} ${cnf.clauses.length}`,
+        ...cnf.clauses.map(clause => `${clause.join(' ')} 0`)
+    ].join('\n')
+}
+
+// Reads both the output of MiniSat, "SAT" and then the literals, and the competition format with "s" and "v" lines.
+export function parseSatModel(lines: readonly string[]): ParsingResult<SatModel> {
+    const diagnostics: ParsingDiagnostic[] = []
+    const literals: number[] = []
+    let is_satisfiable: boolean | null = null
+
+    for (let line_i = 0; line_i < lines.length; line_i += 1) {
+        const line = lines[line_i].trim()
+
+        if (line === '' || line.startsWith('c')) {
+            continue
+        }
+
+        if (/^(s\s+)?(UNSAT|UNSATISFIABLE)$/.test(line)) {
+            is_satisfiable = false
+            continue
+        }
+
+        if (/^(s\s+)?(SAT|SATISFIABLE)$/.test(line)) {
+            is_satisfiable = true
+            continue
+        }
+
+        const token_regexp = /\S+/g
+        let match: RegExpExecArray | null
+
+        while ((match = token_regexp.exec(line.startsWith('v') ? line.slice(1) : line)) !== null) {
+            const literal = Number(match[0])
+
+            if (!Number.isInteger(literal)) {
+                diagnostics.push({
+                    line: line_i + 1,
+                    column: match.index + 1 + (line.startsWith('v') ? 1 : 0),
+                    token: match[0],
+                    message: `"${match[0]}" is not a literal.`
+                })
+            } else if (literal !== 0) {
+                literals.push(literal)
+            }
+        }
+    }
+
+    if (is_satisfiable === null && literals.length > 0) {
+        is_satisfiable = true
+    }
+
+    if (is_satisfiable === null) {
+        diagnostics.push({ line: lines.length, column: 1, token: '', message: 'The model says neither SAT nor UNSAT.' })
+    }
+
+    return {
+        value: diagnostics.length > 0 ? null : { is_satisfiable: is_satisfiable ?? false, literals: literals },
+        diagnostics: diagnostics
+    }
+}
+
+export function getRawDiagramFromModel(level: Level, model: SatModel): RawDiagram {
+    const width = level.column_projection.length
+    const wall_variables = new Set(model.literals.filter(literal => literal > 0))
+
+    return level.raw_diagram.map((row, row_i) => row.map((tile, column_i) => {
+        if (tile === TileType.TREASURE || tile === TileType.MONSTER) {
+            return tile
+        }
+
+        return wall_variables.has(getWallVariable(row_i + 1, column_i + 1, width)) ? TileType.WALL : TileType.EMPTY_SPACE
+    }))
+}
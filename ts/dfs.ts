@@ -0,0 +1,373 @@
+import {
+    clearBit, getBitboard, getCoordsBitboard, getDeadEndBitboard, getOpenBitboard,
+    isBitboardConnected, isBitboardSubset, isBitboardWidth, setBit
+} from './bitboard.js'
+import { getDiagramHeight, getDiagramWidth, getProjectionsOfDiagram } from './diagram.js'
+import {
+    checkMonsters, checkTreasureRooms, checkTreasuresAndMonstersConnectivity, get4DirectionCoords, getHashId, getTRoomLTCoords, getTRoomOuterTileCoords,
+    isContainedByTRoom, isSatisfiedProjections, isSolved, isTilePlacable, isTRoomLTCoordAvailable, isTRoomTilesAvailable
+} from './rules.js'
+import { createSearchState, runCheck, searchBranch, SearchState, visitSearchNode } from './search.js'
+import { Coordinate, Diagram, MutableProjection, Projection, TileType } from './types.js'
+
+export function getCombinations(m: number, n: number): number[][] {
+    if (m > n) {
+        return []
+    }
+
+    const result: number[][] = [];
+
+    (function recursiveSelect(step: number, cur_combination: number[]) {
+        if (cur_combination.length === m) {
+            result.push(Array.from(cur_combination))
+            return
+        }
+
+        if (step >= n) {
+            return
+        }
+
+        cur_combination.push(step)
+        recursiveSelect(step + 1, cur_combination)
+        cur_combination.pop()
+
+        if (cur_combination.length + (n - 1 - step) >= m) {
+            recursiveSelect(step + 1, cur_combination)
+        }
+    })(0, []);
+
+    return result
+}
+
+export function dfs(diagram: Diagram,
+    row_projection: Projection, column_projection: Projection,
+    treasure_coords: readonly Coordinate[], monster_coords: readonly Coordinate[],
+    on_solution: (diagram: Diagram) => boolean = () => true,
+    search_state: SearchState = createSearchState()) {
+    const width = getDiagramWidth(diagram)
+    // The checks run for every candidate use bitboards, which follow every wall placed on the diagram.
+    const is_using_bitboards = isBitboardWidth(width)
+    const walls = getBitboard(diagram, [TileType.WALL])
+    const monsters = getCoordsBitboard(monster_coords, getDiagramHeight(diagram))
+    const treasures_and_monsters = getCoordsBitboard([...treasure_coords, ...monster_coords], getDiagramHeight(diagram))
+    // Known floors are searched as empty spaces, which are only left out of the tiles to wall.
+    const floors = diagram.map(row => row.map(tile => tile === TileType.FLOOR))
+
+    for (let x = 1; x < getDiagramHeight(diagram) - 1; x += 1) {
+        for (let y = 1; y < width - 1; y += 1) {
+            if (diagram[x][y] === TileType.FLOOR) {
+                diagram[x][y] = TileType.EMPTY_SPACE
+            }
+        }
+    }
+
+    function isFloor(x: number, y: number): boolean {
+        return floors[x][y]
+    }
+
+    function isTreasuresAndMonstersConnected(): boolean {
+        return is_using_bitboards ? isBitboardConnected(getOpenBitboard(walls, width), treasures_and_monsters) :
+            checkTreasuresAndMonstersConnectivity(treasure_coords, monster_coords, diagram)
+    }
+
+    function isMonstersInDeadEnds(): boolean {
+        return is_using_bitboards ? isBitboardSubset(monsters, getDeadEndBitboard(walls, width)) :
+            checkMonsters(monster_coords, diagram)
+    }
+
+    function dfs_(step: number,
+        cur_row_projection: MutableProjection, cur_column_projection: MutableProjection,
+        handled_treasure_ids: number[], handled_monster_ids: number[],
+        treasure_room_lt_coords: Coordinate[],): boolean {
+        if (!visitSearchNode(search_state, step)) {
+            return false
+        }
+
+        if (isSatisfiedProjections(cur_row_projection, cur_column_projection, row_projection, column_projection)) {
+            return isSolved(treasure_coords, monster_coords, diagram, false, search_state) && on_solution(diagram)
+        }
+
+        // Enumerate treasures
+        search_state.stage = 'treasures'
+
+        for (const treasure_coord of treasure_coords) {
+            const x = treasure_coord.x
+            const y = treasure_coord.y
+            const hash_id = getHashId(x, y, width)
+
+            if (!(diagram[x][y] === TileType.TREASURE &&
+                !handled_treasure_ids.includes(hash_id))) {
+                continue
+            }
+
+            lroom_loop:
+            for (const lt_coord of getTRoomLTCoords(x, y)) {
+                if (!isTRoomLTCoordAvailable(lt_coord.x, lt_coord.y, diagram)) {
+                    continue lroom_loop
+                }
+
+                if (!isTRoomTilesAvailable(lt_coord.x, lt_coord.y, diagram)) {
+                    continue lroom_loop
+                }
+
+                const outer_tile_coords = getTRoomOuterTileCoords(lt_coord.x, lt_coord.y)
+                const empty_space_coords = outer_tile_coords.filter(tile => diagram[tile.x][tile.y] === TileType.EMPTY_SPACE)
+
+                for (const tile_coord of outer_tile_coords) {
+                    if (diagram[tile_coord.x][tile_coord.y] !== TileType.WALL &&
+                        diagram[tile_coord.x][tile_coord.y] !== TileType.EMPTY_SPACE) {
+                        continue lroom_loop
+                    }
+                }
+
+                if (empty_space_coords.length < 1) {
+                    return false
+                } else {
+                    for (let i = 0; i < empty_space_coords.length; i += 1) {
+                        let placed_indices: number[] = []
+
+                        for (let j = 0; j < empty_space_coords.length; j += 1) {
+                            if (j === i) {
+                                continue
+                            }
+
+                            const row_i = empty_space_coords[j].x - 1
+                            const column_i = empty_space_coords[j].y - 1
+
+                            if (isFloor(row_i + 1, column_i + 1) || !isTilePlacable(row_i, column_i,
+                                cur_row_projection, cur_column_projection,
+                                row_projection, column_projection)) {
+                                break
+                            }
+
+                            diagram[empty_space_coords[j].x][empty_space_coords[j].y] = TileType.WALL
+                            setBit(walls, empty_space_coords[j].x, empty_space_coords[j].y)
+                            cur_row_projection[row_i] += 1
+                            cur_column_projection[column_i] += 1
+                            placed_indices.push(j)
+                        }
+
+                        if (placed_indices.length === empty_space_coords.length - 1 &&
+                            runCheck(search_state, 'isTreasuresAndMonstersConnected', isTreasuresAndMonstersConnected)) {
+                            handled_treasure_ids.push(hash_id)
+                            treasure_room_lt_coords.push(lt_coord)
+
+                            if (searchBranch(search_state, 'treasures', 'wall',
+                                placed_indices.map(index => empty_space_coords[index]),
+                                () => dfs_(step + 1, cur_row_projection, cur_column_projection,
+                                    handled_treasure_ids, handled_monster_ids,
+                                    treasure_room_lt_coords))) {
+                                return true
+                            }
+
+                            handled_treasure_ids.pop()
+                            treasure_room_lt_coords.pop()
+                        }
+
+                        for (let k = 0; k < placed_indices.length; k += 1) {
+                            diagram[
+                                empty_space_coords[placed_indices[k]].x
+                            ][
+                                empty_space_coords[placed_indices[k]].y] = TileType.EMPTY_SPACE
+                            clearBit(walls, empty_space_coords[placed_indices[k]].x, empty_space_coords[placed_indices[k]].y)
+                            cur_row_projection[
+                                empty_space_coords[placed_indices[k]].x - 1] -= 1
+                            cur_column_projection[
+                                empty_space_coords[placed_indices[k]].y - 1] -= 1
+                        }
+                    }
+                }
+            }
+
+            return false
+        }
+
+        if (handled_treasure_ids.length !== treasure_coords.length) {
+            return false
+        }
+
+        // Enumerate monsters
+        search_state.stage = 'monsters'
+
+        for (const monster_coord of monster_coords) {
+            const x = monster_coord.x
+            const y = monster_coord.y
+            const hash_id = getHashId(x, y, width)
+
+            if (!(diagram[x][y] === TileType.MONSTER &&
+                !handled_monster_ids.includes(hash_id))) {
+                continue
+            }
+
+            const outer_tile_coords = get4DirectionCoords(x, y)
+            const empty_space_coords = outer_tile_coords.filter(tile => diagram[tile.x][tile.y] === TileType.EMPTY_SPACE)
+            let number_of_walls = 0
+
+            for (const tile_coord of outer_tile_coords) {
+                switch (diagram[tile_coord.x][tile_coord.y]) {
+                    case TileType.EMPTY_SPACE:
+                        break
+                    case TileType.WALL:
+                        number_of_walls += 1
+                        break
+                    default:
+                        return false
+                }
+            }
+
+            if (number_of_walls >= 4) {
+                return false
+            }
+
+            for (let i = 0; i < empty_space_coords.length; i += 1) {
+                let placed_indices: number[] = []
+
+                for (let j = 0; j < empty_space_coords.length; j += 1) {
+                    if (j === i) {
+                        continue
+                    }
+
+                    const row_i = empty_space_coords[j].x - 1
+                    const column_i = empty_space_coords[j].y - 1
+
+                    if (isFloor(row_i + 1, column_i + 1) || !isTilePlacable(row_i, column_i,
+                        cur_row_projection, cur_column_projection, row_projection, column_projection)) {
+                        break
+                    }
+
+                    diagram[empty_space_coords[j].x][empty_space_coords[j].y] = TileType.WALL
+                    setBit(walls, empty_space_coords[j].x, empty_space_coords[j].y)
+                    cur_row_projection[row_i] += 1
+                    cur_column_projection[column_i] += 1
+                    placed_indices.push(j)
+                }
+
+                if (placed_indices.length === empty_space_coords.length - 1 &&
+                    runCheck(search_state, 'isTreasuresAndMonstersConnected', isTreasuresAndMonstersConnected)) {
+                    handled_monster_ids.push(hash_id)
+
+                    if (searchBranch(search_state, 'monsters', 'wall',
+                        placed_indices.map(index => empty_space_coords[index]),
+                        () => dfs_(step + 1, cur_row_projection, cur_column_projection,
+                            handled_treasure_ids, handled_monster_ids,
+                            treasure_room_lt_coords))) {
+                        return true
+                    }
+
+                    handled_monster_ids.pop()
+                }
+
+                for (let k = 0; k < placed_indices.length; k += 1) {
+                    diagram[
+                        empty_space_coords[placed_indices[k]].x
+                    ][
+                        empty_space_coords[placed_indices[k]].y] = TileType.EMPTY_SPACE
+                    clearBit(walls, empty_space_coords[placed_indices[k]].x, empty_space_coords[placed_indices[k]].y)
+                    cur_row_projection[
+                        empty_space_coords[placed_indices[k]].x - 1] -= 1
+                    cur_column_projection[
+                        empty_space_coords[placed_indices[k]].y - 1] -= 1
+                }
+            }
+
+            return false
+        }
+
+        if (handled_monster_ids.length !== monster_coords.length) {
+            return false
+        }
+
+        // Enumerate empty spaces
+        search_state.stage = 'empty space rows'
+
+        for (let row_i = 0; row_i < cur_row_projection.length; row_i += 1) {
+            const difference = row_projection[row_i] - cur_row_projection[row_i]
+
+            if (difference <= 0) {
+                continue
+            }
+
+            const available_coords: Coordinate[] = []
+
+            for (let column_i = 0; column_i < cur_column_projection.length; column_i += 1) {
+                if (cur_column_projection[column_i] >= column_projection[column_i]) {
+                    continue
+                }
+
+                const x = row_i + 1
+                const y = column_i + 1
+
+                if (!(diagram[x][y] === TileType.EMPTY_SPACE && !isFloor(x, y) &&
+                    !isContainedByTRoom(x, y, treasure_room_lt_coords) &&
+                    isTilePlacable(row_i, column_i, cur_row_projection, cur_column_projection,
+                        row_projection, column_projection))) {
+                    continue
+                }
+
+                diagram[x][y] = TileType.WALL
+                setBit(walls, x, y)
+                cur_row_projection[row_i] += 1
+                cur_column_projection[column_i] += 1
+
+                if (runCheck(search_state, 'checkTreasureRooms', () => checkTreasureRooms(treasure_coords, diagram)) &&
+                    runCheck(search_state, 'isMonstersInDeadEnds', isMonstersInDeadEnds) &&
+                    runCheck(search_state, 'isTreasuresAndMonstersConnected', isTreasuresAndMonstersConnected)) {
+                    available_coords.push({ x: x, y: y })
+                }
+
+                diagram[x][y] = TileType.EMPTY_SPACE
+                clearBit(walls, x, y)
+                cur_row_projection[row_i] -= 1
+                cur_column_projection[column_i] -= 1
+            }
+
+            if (available_coords.length < difference) {
+                return false
+            }
+
+            for (const combination of getCombinations(difference, available_coords.length)) {
+                for (const index of combination) {
+                    const x = available_coords[index].x
+                    const y = available_coords[index].y
+
+                    diagram[x][y] = TileType.WALL
+                    setBit(walls, x, y)
+                    cur_row_projection[x - 1] += 1
+                    cur_column_projection[y - 1] += 1
+                }
+
+                if (runCheck(search_state, 'checkTreasureRooms', () => checkTreasureRooms(treasure_coords, diagram)) &&
+                    runCheck(search_state, 'isMonstersInDeadEnds', isMonstersInDeadEnds) &&
+                    runCheck(search_state, 'isTreasuresAndMonstersConnected', isTreasuresAndMonstersConnected) &&
+                    searchBranch(search_state, 'empty space rows', 'wall',
+                        combination.map(index => available_coords[index]),
+                        () => dfs_(step + 1, cur_row_projection, cur_column_projection,
+                            handled_treasure_ids, handled_monster_ids,
+                            treasure_room_lt_coords))) {
+                    return true
+                }
+
+                for (const index of combination) {
+                    const x = available_coords[index].x
+                    const y = available_coords[index].y
+
+                    diagram[x][y] = TileType.EMPTY_SPACE
+                    clearBit(walls, x, y)
+                    cur_row_projection[x - 1] -= 1
+                    cur_column_projection[y - 1] -= 1
+                }
+            }
+
+            return false
+        }
+
+        return false
+    }
+
+    // The walls placed before the search already count in the projections.
+    const cur_row_projection: MutableProjection = Array.from(getProjectionsOfDiagram(diagram)[0])
+    const cur_column_projection: MutableProjection = Array.from(getProjectionsOfDiagram(diagram)[1])
+
+    return dfs_(0, cur_row_projection, cur_column_projection,
+        [], [], [],)
+}
@@ -0,0 +1,105 @@
+import { Coordinate, Diagram, Projection, RawDiagram, TileType, duplicate } from './types.js'
+
+export function augmentRawDiagram(raw_diagram: RawDiagram): Diagram {
+    const raw_height = raw_diagram.length
+    const raw_width = raw_diagram[0]?.length ?? 0
+    const diagram =
+        duplicate(new Array<TileType>(raw_width + 2).fill(TileType.WALL), raw_height + 2)
+
+    for (let x = 0; x < raw_height; x += 1) {
+        for (let y = 0; y < raw_width; y += 1) {
+            diagram[x + 1][y + 1] = raw_diagram[x][y]
+        }
+    }
+
+    return diagram
+}
+
+export function getRawDiagram(diagram: Diagram): RawDiagram {
+    return diagram.slice(1, -1).map(row => row.slice(1, -1))
+}
+
+export function getDiagramHeight(diagram: Diagram): number {
+    return diagram.length
+}
+
+export function getDiagramWidth(diagram: Diagram): number {
+    return diagram[0]?.length ?? 0
+}
+
+export function getAsciiDiagram(diagram: Diagram, is_render_all: boolean = false): string {
+    let result: string[] = []
+    const start: number = is_render_all ? 0 : 1
+    const height_end: number = is_render_all ? getDiagramHeight(diagram) : getDiagramHeight(diagram) - 1
+    const width_end: number = is_render_all ? getDiagramWidth(diagram) : getDiagramWidth(diagram) - 1
+
+    for (let x = start; x < height_end; x += 1) {
+        let line: string[] = []
+
+        for (let y = start; y < width_end; y += 1) {
+            switch (diagram[x][y]) {
+                case TileType.EMPTY_SPACE:
+                case TileType.FLOOR:
+                    line.push('-')
+                    break
+                case TileType.TREASURE:
+                    line.push('T')
+                    break
+                case TileType.MONSTER:
+                    line.push('M')
+                    break
+                case TileType.WALL:
+                    line.push('#')
+                    break
+                default:
+                    break
+            }
+        }
+
+        result.push(line.join(''))
+    }
+
+    return result.join('\n')
+}
+
+export function formatCoords(coords: readonly Coordinate[]): string {
+    return coords.map(coord => `(${coord.x},${coord.y})`).join(', ')
+}
+
+export function getProjectionsOfDiagram(diagram: Diagram): readonly [Projection, Projection] {
+    const row_projection = new Array<number>(getDiagramHeight(diagram) - 2).fill(0)
+    const column_projection = new Array<number>(getDiagramWidth(diagram) - 2).fill(0)
+
+    for (let x = 1; x < getDiagramHeight(diagram) - 1; x += 1) {
+        for (let y = 1; y < getDiagramWidth(diagram) - 1; y += 1) {
+            if (diagram[x][y] === TileType.WALL) {
+                row_projection[x - 1] += 1
+                column_projection[y - 1] += 1
+            }
+        }
+    }
+
+    return [row_projection, column_projection]
+}
+
+export function getTreasureAndMonsterCoords(diagram: Diagram): readonly [readonly Coordinate[], readonly Coordinate[]] {
+    const treasure_coords: Coordinate[] = []
+    const monster_coords: Coordinate[] = []
+
+    for (let x = 1; x < getDiagramHeight(diagram) - 1; x += 1) {
+        for (let y = 1; y < getDiagramWidth(diagram) - 1; y += 1) {
+            switch (diagram[x][y]) {
+                case TileType.TREASURE:
+                    treasure_coords.push({ x: x, y: y })
+                    break
+                case TileType.MONSTER:
+                    monster_coords.push({ x: x, y: y })
+                    break
+                default:
+                    break
+            }
+        }
+    }
+
+    return [treasure_coords, monster_coords]
+}
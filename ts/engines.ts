@@ -0,0 +1,23 @@
+import { dfs } from './dfs.js'
+import { solveByPropagation } from './propagation.js'
+import { solveBySat } from './sat.js'
+
+export type Solver = typeof dfs
+export type EngineName = 'dfs' | 'propagation' | 'sat'
+
+export const ENGINE_NAMES: readonly EngineName[] = ['dfs', 'propagation', 'sat']
+
+export function isEngineName(engine: string): engine is EngineName {
+    return (ENGINE_NAMES as readonly string[]).includes(engine)
+}
+
+export function getSolver(engine: EngineName): Solver {
+    switch (engine) {
+        case 'dfs':
+            return dfs
+        case 'propagation':
+            return solveByPropagation
+        case 'sat':
+            return solveBySat
+    }
+}
@@ -0,0 +1,102 @@
+import { encodeLevel } from './cnf.js'
+import { augmentRawDiagram, formatCoords, getTreasureAndMonsterCoords } from './diagram.js'
+import { solveCnfBySat } from './sat.js'
+import { isSearchStopped, SearchState } from './search.js'
+import { Coordinate, Level, TileType } from './types.js'
+
+// The projections of rows and columns count from 1, like the coordinates.
+export type Clue =
+    { kind: 'row' | 'column', index: number, projection: number } |
+    { kind: 'treasure' | 'monster', coord: Coordinate }
+
+export type ExplanationStatus = 'solvable' | 'conflicting' | 'stopped'
+
+export interface Explanation {
+    status: ExplanationStatus
+    clues: readonly Clue[]
+}
+
+function getClues(level: Level): Clue[] {
+    const [treasure_coords, monster_coords] = getTreasureAndMonsterCoords(augmentRawDiagram(level.raw_diagram))
+
+    return [
+        ...level.row_projection.map((projection, row_i): Clue => ({ kind: 'row', index: row_i + 1, projection: projection })),
+        ...level.column_projection.map((projection, column_i): Clue =>
+            ({ kind: 'column', index: column_i + 1, projection: projection })),
+        ...treasure_coords.map((coord): Clue => ({ kind: 'treasure', coord: coord })),
+        ...monster_coords.map((coord): Clue => ({ kind: 'monster', coord: coord }))
+    ]
+}
+
+// Treasures and monsters left out become empty spaces, projections left out count any number of walls.
+function isSatisfiable(level: Level, clues: readonly Clue[], search_state: SearchState): boolean {
+    const kept_tile_keys = new Set(clues.flatMap(clue => 'coord' in clue ? [`${clue.coord.x},${clue.coord.y}`] : []))
+    const raw_diagram = level.raw_diagram.map((row, row_i) => row.map((tile, column_i) =>
+        (tile === TileType.TREASURE || tile === TileType.MONSTER) &&
+        !kept_tile_keys.has(`${row_i + 1},${column_i + 1}`) ? TileType.EMPTY_SPACE : tile))
+    const cnf = encodeLevel({ ...level, raw_diagram: raw_diagram }, false, {
+        row_indexes: level.row_projection.map((_, row_i) => row_i).filter(
+            row_i => !clues.some(clue => clue.kind === 'row' && clue.index === row_i + 1)),
+        column_indexes: level.column_projection.map((_, column_i) => column_i).filter(
+            column_i => !clues.some(clue => clue.kind === 'column' && clue.index === column_i + 1))
+    })
+    const diagram = augmentRawDiagram(raw_diagram)
+    const [treasure_coords, monster_coords] = getTreasureAndMonsterCoords(diagram)
+
+    return solveCnfBySat(cnf, diagram, treasure_coords, monster_coords, () => true, search_state)
+}
+
+// Drops the clues one at a time, each one stays out when the others still conflict without it.
+// What remains is a minimal set of conflicting clues, though not always the smallest one.
+export function explainLevel(level: Level, search_state: SearchState): Explanation {
+    let clues = getClues(level)
+
+    if (isSatisfiable(level, clues, search_state)) {
+        return { status: 'solvable', clues: [] }
+    }
+
+    if (isSearchStopped(search_state)) {
+        return { status: 'stopped', clues: clues }
+    }
+
+    for (const clue of [...clues]) {
+        const other_clues = clues.filter(other_clue => other_clue !== clue)
+
+        if (!isSatisfiable(level, other_clues, search_state)) {
+            if (isSearchStopped(search_state)) {
+                return { status: 'stopped', clues: clues }
+            }
+
+            clues = other_clues
+        }
+    }
+
+    return { status: 'conflicting', clues: clues }
+}
+
+export function formatClue(clue: Clue): string {
+    switch (clue.kind) {
+        case 'row':
+        case 'column':
+            return `${clue.kind} ${clue.index} = ${clue.projection}`
+        default:
+            return `the ${clue.kind} at ${formatCoords([clue.coord])}`
+    }
+}
+
+// Such as "row 4 = 6 conflicts with the monster at (4,2) and column 7 = 1".
+export function formatConflict(clues: readonly Clue[]): string {
+    if (clues.length === 0) {
+        return 'the walls of the level conflict by themselves'
+    }
+
+    const [first_clue, ...other_clues] = clues.map(formatClue)
+
+    if (other_clues.length === 0) {
+        return `${first_clue} can't hold by itself`
+    }
+
+    const last_clue = other_clues.pop()
+
+    return `${first_clue} conflicts with ${other_clues.length > 0 ? `${other_clues.join(', ')} and ` : ''}${last_clue}`
+}
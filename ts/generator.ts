@@ -0,0 +1,164 @@
+import { augmentRawDiagram, getProjectionsOfDiagram, getTreasureAndMonsterCoords } from './diagram.js'
+import { Solver } from './engines.js'
+import { solveByPropagation } from './propagation.js'
+import { isDeadEnds, isContainedByTRoom, isSolved, isTRoomLTCoordAvailable, get4DirectionCoords, get4TilesSpaces, getTRoomOuterTileCoords, getTRoomTileCoords } from './rules.js'
+import { Coordinate, Diagram, Projection, RawDiagram, TileType, duplicate } from './types.js'
+
+export function createRandom(seed: number): () => number {
+    let state = seed >>> 0
+
+    // Mulberry32, a small seedable generator, so the same seed always builds the same levels.
+    return () => {
+        state = (state + 0x6D2B79F5) >>> 0
+
+        let t = state
+
+        t = Math.imul(t ^ (t >>> 15), t | 1)
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+    }
+}
+
+export function getRandomInteger(random: () => number, n: number): number {
+    return Math.floor(random() * n)
+}
+
+export function generateDungeon(height: number, width: number, random: () => number): Diagram {
+    const diagram = augmentRawDiagram(duplicate(new Array<TileType>(width).fill(TileType.WALL), height))
+    const reserved = duplicate(new Array<boolean>(width + 2).fill(false), height + 2)
+    const treasure_room_lt_coords: Coordinate[] = []
+    const number_of_rooms = getRandomInteger(random, Math.floor(height * width / 32) + 1)
+    const target_number_of_floors = Math.floor(height * width * (0.45 + random() * 0.15))
+    let number_of_floors = 0
+
+    // Place treasure rooms first, their borders are reserved as walls except one exit.
+    for (let i = 0; i < number_of_rooms; i += 1) {
+        const lt_coord = { x: 1 + getRandomInteger(random, height), y: 1 + getRandomInteger(random, width) }
+
+        if (!isTRoomLTCoordAvailable(lt_coord.x, lt_coord.y, diagram)) {
+            continue
+        }
+
+        const tile_coords = getTRoomTileCoords(lt_coord.x, lt_coord.y)
+        const outer_tile_coords = getTRoomOuterTileCoords(lt_coord.x, lt_coord.y)
+        const exit_coords = outer_tile_coords.filter(
+            coord => coord.x >= 1 && coord.x <= height && coord.y >= 1 && coord.y <= width)
+
+        if (exit_coords.length === 0 ||
+            [...tile_coords, ...outer_tile_coords].some(coord => reserved[coord.x][coord.y])) {
+            continue
+        }
+
+        const treasure_coord = tile_coords[getRandomInteger(random, tile_coords.length)]
+        const exit_coord = exit_coords[getRandomInteger(random, exit_coords.length)]
+
+        for (const coord of [...tile_coords, ...outer_tile_coords]) {
+            reserved[coord.x][coord.y] = true
+        }
+
+        for (const coord of tile_coords) {
+            diagram[coord.x][coord.y] = TileType.EMPTY_SPACE
+        }
+
+        diagram[treasure_coord.x][treasure_coord.y] = TileType.TREASURE
+        diagram[exit_coord.x][exit_coord.y] = TileType.EMPTY_SPACE
+        treasure_room_lt_coords.push(lt_coord)
+        number_of_floors += tile_coords.length + 1
+    }
+
+    if (treasure_room_lt_coords.length === 0) {
+        diagram[1 + getRandomInteger(random, height)][1 + getRandomInteger(random, width)] = TileType.EMPTY_SPACE
+        number_of_floors += 1
+    }
+
+    function isCarvable(x: number, y: number): boolean {
+        if (reserved[x][y] || diagram[x][y] !== TileType.WALL ||
+            !get4DirectionCoords(x, y).some(coord => diagram[coord.x][coord.y] !== TileType.WALL)) {
+            return false
+        }
+
+        diagram[x][y] = TileType.EMPTY_SPACE
+
+        const is_carvable = get4TilesSpaces(x, y).every(
+            space => space.some(coord => diagram[coord.x][coord.y] === TileType.WALL))
+
+        diagram[x][y] = TileType.WALL
+
+        return is_carvable
+    }
+
+    // Grow hallways from the floors one tile at a time, never opening a 2x2 area.
+    while (number_of_floors < target_number_of_floors) {
+        const carvable_coords: Coordinate[] = []
+
+        for (let x = 1; x <= height; x += 1) {
+            for (let y = 1; y <= width; y += 1) {
+                if (isCarvable(x, y)) {
+                    carvable_coords.push({ x: x, y: y })
+                }
+            }
+        }
+
+        if (carvable_coords.length === 0) {
+            break
+        }
+
+        const coord = carvable_coords[getRandomInteger(random, carvable_coords.length)]
+
+        diagram[coord.x][coord.y] = TileType.EMPTY_SPACE
+        number_of_floors += 1
+    }
+
+    // Every dead end holds a monster.
+    for (let x = 1; x <= height; x += 1) {
+        for (let y = 1; y <= width; y += 1) {
+            if (diagram[x][y] === TileType.EMPTY_SPACE &&
+                !isContainedByTRoom(x, y, treasure_room_lt_coords) &&
+                isDeadEnds(x, y, diagram)) {
+                diagram[x][y] = TileType.MONSTER
+            }
+        }
+    }
+
+    return diagram
+}
+
+export function countSolutions(diagram: Diagram,
+    row_projection: Projection, column_projection: Projection,
+    max_number_of_solutions: number, solve: Solver = solveByPropagation): number {
+    const [treasure_coords, monster_coords] = getTreasureAndMonsterCoords(diagram)
+    let number_of_solutions = 0
+
+    solve(diagram.map(row => Array.from(row)),
+        row_projection, column_projection,
+        treasure_coords, monster_coords,
+        () => {
+            number_of_solutions += 1
+            return number_of_solutions >= max_number_of_solutions
+        })
+
+    return number_of_solutions
+}
+
+export function generateLevel(height: number, width: number, random: () => number, max_number_of_attempts: number):
+    readonly [Projection, Projection, RawDiagram, Diagram, number] | null {
+    for (let attempt = 1; attempt <= max_number_of_attempts; attempt += 1) {
+        const solution_diagram = generateDungeon(height, width, random)
+        const [treasure_coords, monster_coords] = getTreasureAndMonsterCoords(solution_diagram)
+
+        if (!isSolved(treasure_coords, monster_coords, solution_diagram, false)) {
+            continue
+        }
+
+        const [row_projection, column_projection] = getProjectionsOfDiagram(solution_diagram)
+        const raw_diagram = solution_diagram.slice(1, -1).map(row => row.slice(1, -1).map(
+            tile => tile === TileType.WALL ? TileType.EMPTY_SPACE : tile))
+
+        if (countSolutions(augmentRawDiagram(raw_diagram), row_projection, column_projection, 2) === 1) {
+            return [row_projection, column_projection, raw_diagram, solution_diagram, attempt]
+        }
+    }
+
+    return null
+}
@@ -0,0 +1,157 @@
+import { formatCoords, getDiagramHeight, getDiagramWidth } from './diagram.js'
+import {
+    CellDomain, Domains, PropagationContext, PROPAGATION_RULES, copyDomains, createDomains, createPropagationContext, propagate
+} from './propagation.js'
+import { createSearchState, SearchState, visitSearchNode } from './search.js'
+import { Coordinate, Level } from './types.js'
+
+export interface Hint {
+    rule: string
+    reason: string
+    coords: readonly Coordinate[]
+    domain: CellDomain
+}
+
+export interface HintResult {
+    hint: Hint | null
+    broken_rule: string | null
+    conflicting_coord: Coordinate | null
+    stopped: 'timed out' | 'node limit' | 'cancelled' | null
+}
+
+// Returns the first mark which contradicts the tiles of the level, the marks before it are applied.
+export function applyMarks(domains: Domains, marks: readonly (readonly CellDomain[])[]): Coordinate | null {
+    for (let x = 0; x < marks.length; x += 1) {
+        for (let y = 0; y < marks[x].length; y += 1) {
+            if (marks[x][y] === CellDomain.UNKNOWN || domains[x + 1][y + 1] === marks[x][y]) {
+                continue
+            }
+
+            if (domains[x + 1][y + 1] !== CellDomain.UNKNOWN) {
+                return { x: x + 1, y: y + 1 }
+            }
+
+            domains[x + 1][y + 1] = marks[x][y]
+        }
+    }
+
+    return null
+}
+
+export function getBrokenRule(context: PropagationContext, domains: Domains): string | null {
+    for (const rule of PROPAGATION_RULES) {
+        if (rule.propagate(context, domains) === null) {
+            return rule.name
+        }
+    }
+
+    return null
+}
+
+// Each rule tried and each hypothesis counts as a node, a stopped search gives no hint.
+export function findHint(context: PropagationContext, domains: Domains,
+    search_state: SearchState = createSearchState()): Hint | null {
+    for (const rule of PROPAGATION_RULES) {
+        if (!visitSearchNode(search_state)) {
+            return null
+        }
+
+        const deductions = (rule.propagate(context, domains) ?? []).filter(
+            deduction => domains[deduction.coord.x][deduction.coord.y] === CellDomain.UNKNOWN)
+
+        if (deductions.length > 0) {
+            const reason = deductions[0].reason
+            const domain = deductions[0].domain
+
+            return {
+                rule: rule.name,
+                reason: reason,
+                coords: deductions.filter(
+                    deduction => deduction.reason === reason && deduction.domain === domain
+                ).map(deduction => deduction.coord),
+                domain: domain
+            }
+        }
+    }
+
+    // No rule forces a tile directly, try each state of each tile and see whether the rules break.
+    for (let x = 1; x < getDiagramHeight(context.diagram) - 1; x += 1) {
+        for (let y = 1; y < getDiagramWidth(context.diagram) - 1; y += 1) {
+            if (domains[x][y] !== CellDomain.UNKNOWN) {
+                continue
+            }
+
+            for (const domain of [CellDomain.WALL, CellDomain.FLOOR]) {
+                if (!visitSearchNode(search_state)) {
+                    return null
+                }
+
+                const hypothesis_domains = copyDomains(domains)
+
+                hypothesis_domains[x][y] = domain
+
+                if (!propagate(context, hypothesis_domains)) {
+                    const forced_domain = domain === CellDomain.WALL ? CellDomain.FLOOR : CellDomain.WALL
+
+                    return {
+                        rule: 'hypothesis',
+                        reason: `Assuming the tile at ${formatCoords([{ x: x, y: y }])} is ${getDomainName(domain)} breaks the rules, so it's ${getDomainName(forced_domain)}.`,
+                        coords: [{ x: x, y: y }],
+                        domain: forced_domain
+                    }
+                }
+            }
+        }
+    }
+
+    return null
+}
+
+// A mark against the tiles of the level breaks the clues before any rule is tried.
+export function getLevelHint(level: Level, marks: readonly (readonly CellDomain[])[] | null,
+    search_state: SearchState = createSearchState()): HintResult {
+    const context = createPropagationContext(level)
+    const domains = createDomains(context.diagram)
+    const conflicting_coord = marks === null ? null : applyMarks(domains, marks)
+
+    if (conflicting_coord !== null) {
+        return { hint: null, broken_rule: 'clues', conflicting_coord: conflicting_coord, stopped: null }
+    }
+
+    const broken_rule = getBrokenRule(context, domains)
+    const hint = broken_rule === null ? findHint(context, domains, search_state) : null
+
+    return {
+        hint: hint,
+        broken_rule: broken_rule,
+        conflicting_coord: null,
+        stopped: search_state.is_cancelled ? 'cancelled' : search_state.is_timed_out ? 'timed out' :
+            search_state.is_out_of_nodes ? 'node limit' : null
+    }
+}
+
+export function getDomainName(domain: CellDomain): string {
+    switch (domain) {
+        case CellDomain.WALL:
+            return 'wall'
+        case CellDomain.FLOOR:
+            return 'floor'
+        default:
+            return 'unknown'
+    }
+}
+
+export function getCellDomainFromAscii(character: string): CellDomain | null {
+    switch (character) {
+        case '.':
+            return CellDomain.UNKNOWN
+        case '-':
+        case 'T':
+        case 'M':
+            return CellDomain.FLOOR
+        case '#':
+            return CellDomain.WALL
+        default:
+            return null
+    }
+}
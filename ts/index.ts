@@ -0,0 +1,154 @@
+import { analyzeLevel, getMarkContradiction } from './analysis.js'
+import {
+    augmentRawDiagram, getAsciiDiagram, getProjectionsOfDiagram, getRawDiagram, getTreasureAndMonsterCoords
+} from './diagram.js'
+import { EngineName, getSolver } from './engines.js'
+import { getTileTypeFromAscii, parseAsciiGrid, parseLevelLines, ParsingResult, splitLines } from './parser.js'
+import { createPropagationContext } from './propagation.js'
+import { collectRuleViolations } from './rules.js'
+import { createSearchState, SearchOptions, SearchStatistics } from './search.js'
+import { getSvgDiagram, getSvgGrid, SvgGrid } from './svg.js'
+import { Coordinate, Level, RawDiagram, RuleViolation, TileType } from './types.js'
+
+export { TileType } from './types.js'
+export type { Coordinate, Level, Projection, RawDiagram, RawDiagramRow, RuleViolation } from './types.js'
+export type { EngineName } from './engines.js'
+export type { ParsingDiagnostic, ParsingResult } from './parser.js'
+export type {
+    BranchPartition, CheckStatistics, SearchOptions, SearchProgress, SearchStatistics, StageStatistics, TraceEvent
+} from './search.js'
+export type { SvgGrid, SvgTile } from './svg.js'
+export { getDefaultNumberOfWorkers, solveBranchesInWorkers, solveLevelsInWorkers } from './workers.js'
+
+export type SolvingStatus = 'solved' | 'failed' | 'timed out' | 'node limit' | 'cancelled'
+export type RenderingFormat = 'ascii' | 'numeric' | 'svg'
+
+export const RENDERING_FORMATS: readonly RenderingFormat[] = ['ascii', 'numeric', 'svg']
+
+export interface SolvingOptions extends SearchOptions {
+    engine?: EngineName
+    max_number_of_solutions?: number
+}
+
+export interface SolvingResult {
+    status: SolvingStatus
+    solutions: RawDiagram[]
+    elapsed_ms: number
+    nodes: number
+    reasons: readonly RuleViolation[]
+    statistics: SearchStatistics | null
+}
+
+export function parseLevel(text: string): ParsingResult<Level> {
+    return parseLevelLines(splitLines(text))
+}
+
+export function parseGrid(text: string, level: Level): ParsingResult<RawDiagram> {
+    return parseAsciiGrid(splitLines(text),
+        level.row_projection.length, level.column_projection.length, getTileTypeFromAscii)
+}
+
+export function analyze(level: Level): RuleViolation[] {
+    return analyzeLevel(createPropagationContext(level))
+}
+
+export function solve(level: Level, options: SolvingOptions = {}): SolvingResult {
+    const start_time = (new Date()).getTime()
+    const reasons = analyze(level)
+
+    if (reasons.length > 0 || options.signal?.aborted) {
+        return {
+            status: reasons.length > 0 ? 'failed' : 'cancelled',
+            solutions: [],
+            elapsed_ms: (new Date()).getTime() - start_time,
+            nodes: 0,
+            reasons: reasons,
+            statistics: null
+        }
+    }
+
+    const diagram = augmentRawDiagram(level.raw_diagram)
+    const [treasure_coords, monster_coords] = getTreasureAndMonsterCoords(diagram)
+    // Known floors are searched as empty spaces and only kept out of the solutions, so the same search tells
+    // whether the level fails because of them. A partition of branches can't tell it for the whole level.
+    const floor_coords: Coordinate[] = options.branch_partition !== undefined ? [] : diagram.flatMap(
+        (row, x) => row.flatMap((tile, y) => tile === TileType.FLOOR ? [{ x: x, y: y }] : []))
+    let is_solvable_without_floors = false
+    const max_number_of_solutions = options.max_number_of_solutions ?? 1
+    const search_state = createSearchState(options)
+    const solutions: RawDiagram[] = []
+    const ascii_solutions: string[] = []
+
+    for (const floor_coord of floor_coords) {
+        diagram[floor_coord.x][floor_coord.y] = TileType.EMPTY_SPACE
+    }
+
+    getSolver(options.engine ?? 'propagation')(diagram,
+        level.row_projection, level.column_projection,
+        treasure_coords, monster_coords,
+        solved_diagram => {
+            if (floor_coords.some(coord => solved_diagram[coord.x][coord.y] === TileType.WALL)) {
+                is_solvable_without_floors = true
+                return false
+            }
+
+            const ascii_diagram = getAsciiDiagram(solved_diagram)
+
+            // The search of dfs may reach the same solution through different orders of placing.
+            if (!ascii_solutions.includes(ascii_diagram)) {
+                ascii_solutions.push(ascii_diagram)
+                solutions.push(getRawDiagram(solved_diagram))
+            }
+
+            return solutions.length >= max_number_of_solutions
+        }, search_state)
+
+    const status: SolvingStatus = search_state.is_cancelled ? 'cancelled' : search_state.is_timed_out ? 'timed out' :
+        search_state.is_out_of_nodes ? 'node limit' : solutions.length > 0 ? 'solved' : 'failed'
+
+    return {
+        status: status,
+        solutions: solutions,
+        elapsed_ms: (new Date()).getTime() - start_time,
+        nodes: search_state.number_of_nodes,
+        reasons: status === 'failed' && is_solvable_without_floors ? [getMarkContradiction(floor_coords)] : [],
+        statistics: search_state.statistics
+    }
+}
+
+export function verify(level: Level, grid: RawDiagram): RuleViolation[] {
+    const height = level.row_projection.length
+    const width = level.column_projection.length
+
+    if (grid.length !== height || grid.some(row => row.length !== width)) {
+        return [{
+            rule: 'size',
+            coords: [],
+            message: `The grid should have ${height} rows of ${width} tiles.`
+        }]
+    }
+
+    return collectRuleViolations(augmentRawDiagram(level.raw_diagram),
+        level.row_projection, level.column_projection, augmentRawDiagram(grid))
+}
+
+export function isRenderingFormat(format: string): format is RenderingFormat {
+    return (RENDERING_FORMATS as readonly string[]).includes(format)
+}
+
+export function render(grid: RawDiagram, format: RenderingFormat = 'ascii'): string {
+    switch (format) {
+        case 'numeric':
+            return grid.map(row => row.join(' ')).join('\n')
+        case 'svg':
+            // A solution meets the projections of its level, so they are counted from the grid.
+            return getSvgDiagram(...getProjectionsOfDiagram(augmentRawDiagram(grid)), grid)
+        default:
+            return getAsciiDiagram(augmentRawDiagram(grid))
+    }
+}
+
+// Unlike render, it also draws unsolved levels and grids with unknown tiles, the level itself by default.
+export function renderSvg(level: Level, grid: SvgGrid = getSvgGrid(level)): string {
+    return getSvgDiagram(level.row_projection, level.column_projection, grid)
+}
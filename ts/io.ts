@@ -0,0 +1,170 @@
+import { closeSync, createReadStream, existsSync, openSync, readdirSync, statSync, writeFileSync, writeSync } from 'fs'
+import { createInterface } from 'readline'
+import { basename, dirname, join as joinPaths, resolve as resolvePath } from 'path'
+import { fileURLToPath } from "url"
+import { formatParsingDiagnostic, getTileTypeFromAscii, parseAsciiGrid, parseLevelLines, ParsingResult } from './parser.js'
+import { CellDomain } from './propagation.js'
+import { parseSatModel, SatModel } from './cnf.js'
+import { getCellDomainFromAscii } from './hint.js'
+import { Level, RawDiagram } from './types.js'
+
+const __dirname = dirname(fileURLToPath(import.meta.url))
+
+export const STDIN_FILE_NAME = '-'
+
+export function getFilePath(directory: string, file_name: string): string {
+    const directory_file_path = joinPaths(__dirname, `../${directory}/${file_name}`)
+
+    // A bare file name still points into the directory unless only the working directory has it,
+    // any other name is a path from the working directory.
+    if (basename(file_name) === file_name && (existsSync(directory_file_path) || !existsSync(file_name))) {
+        return directory_file_path
+    }
+
+    return resolvePath(file_name)
+}
+
+async function readLines(input: NodeJS.ReadableStream): Promise<readonly string[]> {
+    const lines_reader = createInterface({
+        input: input,
+        crlfDelay: Infinity
+    })
+    const lines: string[] = []
+
+    for await (const line of lines_reader) {
+        lines.push(line)
+    }
+
+    return lines
+}
+
+export async function readLinesFile(directory: string, file_name: string): Promise<readonly string[] | null> {
+    if (file_name === STDIN_FILE_NAME) {
+        return readLines(process.stdin)
+    }
+
+    const file_path = getFilePath(directory, file_name)
+
+    if (!existsSync(file_path)) {
+        console.log(`@main> File "${file_name}" doesn\'t exist.`)
+        return null
+    }
+
+    if (!statSync(file_path).isFile()) {
+        console.log(`@main> File "${file_name}" isn\'t readable.`)
+        return null
+    }
+
+    return readLines(createReadStream(file_path))
+}
+
+export async function readInputFile(file_name: string): Promise<readonly string[] | null> {
+    return readLinesFile('input', file_name)
+}
+
+export async function readOutputFile(file_name: string): Promise<readonly string[] | null> {
+    return readLinesFile('output', file_name)
+}
+
+export function writeInputFile(file_name: string, content: string) {
+    writeFileSync(getFilePath('input', file_name), content)
+}
+
+export function writeOutputFile(file_name: string, content: string) {
+    const file_path = joinPaths(__dirname, `../output/${basename(file_name)}`)
+    writeFileSync(file_path, content)
+}
+
+export function writeDestinationFile(file_path: string, content: string) {
+    writeFileSync(resolvePath(file_path), content)
+}
+
+export function openDestinationFile(file_path: string): number {
+    return openSync(resolvePath(file_path), 'w')
+}
+
+// The search runs synchronously, so lines are written at once instead of through a stream.
+export function writeDestinationLine(file_descriptor: number, line: string) {
+    writeSync(file_descriptor, `${line}\n`)
+}
+
+export function closeDestinationFile(file_descriptor: number) {
+    closeSync(file_descriptor)
+}
+
+export function existsInputFile(file_name: string): boolean {
+    return existsSync(getFilePath('input', file_name))
+}
+
+// Only a level read from the input directory has its outputs in the output directory under the same name,
+// so that a level from a path never overwrites the outputs of another level with the same name.
+export function isInputDirectoryFile(file_name: string): boolean {
+    return file_name !== STDIN_FILE_NAME && dirname(getFilePath('input', file_name)) === joinPaths(__dirname, '../input')
+}
+
+export function existsOutputFile(file_name: string): boolean {
+    return existsSync(joinPaths(__dirname, `../output/${file_name}`))
+}
+
+export function listInputFiles(): string[] {
+    return readdirSync(joinPaths(__dirname, '../input')).sort()
+}
+
+function getParsedValue<T>(file_name: string, parsing_result: ParsingResult<T>): T | null {
+    for (const diagnostic of parsing_result.diagnostics) {
+        console.log(`@main> File "${file_name}", ${formatParsingDiagnostic(diagnostic)}`)
+    }
+
+    return parsing_result.value
+}
+
+export async function parseInputFile(file_name: string): Promise<Level | null> {
+    const lines = await readInputFile(file_name)
+
+    if (lines === null) {
+        return null
+    }
+
+    return getParsedValue(file_name, parseLevelLines(lines))
+}
+
+export async function parseSolutionFile(file_name: string, height: number, width: number): Promise<RawDiagram | null> {
+    const lines = await readOutputFile(file_name)
+
+    if (lines === null) {
+        return null
+    }
+
+    return getParsedValue(file_name, parseAsciiGrid(lines, height, width, getTileTypeFromAscii))
+}
+
+export async function parseMarksFile(file_name: string, height: number, width: number): Promise<readonly CellDomain[][] | null> {
+    const lines = await readInputFile(file_name)
+
+    if (lines === null) {
+        return null
+    }
+
+    return getParsedValue(file_name, parseAsciiGrid(lines, height, width, getCellDomainFromAscii))
+}
+
+// A grid is a solution or a partial one, where `.` is for a tile not known yet.
+export async function parseGridFile(file_name: string, height: number, width: number): Promise<readonly CellDomain[][] | null> {
+    const lines = await readOutputFile(file_name)
+
+    if (lines === null) {
+        return null
+    }
+
+    return getParsedValue(file_name, parseAsciiGrid(lines, height, width, getCellDomainFromAscii))
+}
+
+export async function parseSatModelFile(file_name: string): Promise<SatModel | null> {
+    const lines = await readOutputFile(file_name)
+
+    if (lines === null) {
+        return null
+    }
+
+    return getParsedValue(file_name, parseSatModel(lines))
+}
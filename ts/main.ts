@@ -1,937 +1,923 @@
-import { createReadStream, existsSync, statSync, writeFileSync } from 'fs'
-import { createInterface } from 'readline'
-import { dirname, join as joinPaths } from 'path'
-import { fileURLToPath } from "url"
-
-const __dirname = dirname(fileURLToPath(import.meta.url))
-
-type Dictionary<K extends string | number | symbol = string, V = string> = { [key in K]?: V }
-type TupleOf<T, N extends number, R extends readonly unknown[]> = R['length'] extends N ? R : TupleOf<T, N, readonly [T, ...R]>
-type Tuple<T, N extends number> = N extends N ? number extends N ? T[] : TupleOf<T, N, []> & { length: N } : never
-type MutableTupleOf<T, N extends number, R extends unknown[]> = R['length'] extends N ? R : MutableTupleOf<T, N, [T, ...R]>
-type MutableTuple<T, N extends number> = N extends N ? number extends N ? T[] : MutableTupleOf<T, N, []> & { length: N } : never
-type Enumerate<N extends number, Acc extends readonly number[] = []> = Acc['length'] extends N ? Acc[number] : Enumerate<N, [...Acc, Acc['length']]>
-type NumberRange<Lower extends number, Upper extends number> = Exclude<Enumerate<Upper>, Enumerate<Lower>>
-
-enum TileType {
-    EMPTY_SPACE = 0,
-    TREASURE = 1,
-    MONSTER = 2,
-    WALL = 3
-}
-
-const NUMBER_OF_TILE_TYPES = 4
-const RAW_SIDE_LENGTH = 8
-const RAW_SIDE_LENGTH_PLUS = 9
-const SIDE_LENGTH = 10
-
-type NumberOfTileTypeRange = NumberRange<0, 4>
-type RawDiagramRow = Tuple<TileType, typeof RAW_SIDE_LENGTH>
-type RawDiagram = Tuple<RawDiagramRow, typeof RAW_SIDE_LENGTH>
-type DiagramRow = MutableTuple<TileType, typeof SIDE_LENGTH>
-type Diagram = MutableTuple<DiagramRow, typeof SIDE_LENGTH>
-type NumberOfTilesRange = NumberRange<0, typeof RAW_SIDE_LENGTH_PLUS>
-type Projection = Tuple<NumberOfTilesRange, typeof RAW_SIDE_LENGTH>
-type MutableProjection = MutableTuple<NumberOfTilesRange, typeof RAW_SIDE_LENGTH>
-type ColorSet = Dictionary<number, number>
-
-interface Coordinate {
-    x: number
-    y: number
-}
-
-function duplicate<T>(value: T, length: number): T[] {
-    const array = new Array<T>(length)
-
-    for (let i = 0; i < length; i += 1) {
-        if (Array.isArray(value)) {
-            array[i] = Array.from(value) as T
-        } else {
-            array[i] = value
-        }
-    }
+import { basename, extname } from 'path'
+import { emitKeypressEvents } from 'readline'
+import { createBenchmarkSubjects, runBenchmark } from './benchmark.js'
+import { encodeLevel, getDimacsText, getRawDiagramFromModel } from './cnf.js'
+import { augmentRawDiagram, formatCoords, getAsciiDiagram, getTreasureAndMonsterCoords } from './diagram.js'
+import { EngineName, ENGINE_NAMES, isEngineName } from './engines.js'
+import { explainLevel, formatConflict } from './explain.js'
+import { createRandom, generateLevel } from './generator.js'
+import { applyMarks, findHint, getBrokenRule, getDomainName } from './hint.js'
+import {
+    isRenderingFormat, render, RenderingFormat, renderSvg, solve, solveBranchesInWorkers, solveLevelsInWorkers,
+    SolvingResult, verify
+} from './index.js'
+import {
+    closeDestinationFile, existsInputFile, existsOutputFile, listInputFiles, openDestinationFile,
+    parseGridFile, parseInputFile, parseMarksFile, parseSatModelFile, parseSolutionFile, readInputFile,
+    isInputDirectoryFile, STDIN_FILE_NAME, writeDestinationFile, writeDestinationLine, writeInputFile, writeOutputFile
+} from './io.js'
+import { formatParsingDiagnostic, getLevelText, parseLevelLines } from './parser.js'
+import { CellDomain, createDomains, createPropagationContext, PropagationContext, searchDomains } from './propagation.js'
+import {
+    createPlayState, cycleMark, getPlayScreen, isPlaySolved, moveCursor, redoMove, toggleMark, undoMove
+} from './play.js'
+import { RATING_TIERS, RATING_TIER_NAMES, rateLevel } from './rating.js'
+import { getRuleChecks, isSolved } from './rules.js'
+import { createSearchState, SearchOptions, SearchProgress, SearchStatistics, TraceEvent } from './search.js'
+import { createSolvingServer } from './server.js'
+import { getSvgGrid, SvgGrid } from './svg.js'
+import { Level, RuleViolation } from './types.js'
+import { UNIT_TEST_CASES, TestCase } from './tests.js'
+import { getDefaultNumberOfWorkers } from './workers.js'
+
+const MAX_NUMBER_OF_GENERATING_ATTEMPTS = 1000
+const BATCH_SUMMARY_FILE_NAME = 'batch_summary.json'
+const REGRESSION_TEST_TIMEOUT = 60000
+const NUMBER_OF_BENCHMARK_DUNGEONS = 50
+const ASCII_TILES: readonly string[] = ['-', 'T', 'M', '#', '-']
 
-    return array
+function getElapsedTime(start_time: number): number {
+    return Math.abs((new Date()).getTime() - start_time)
 }
 
-function getTileType(value: NumberOfTileTypeRange): TileType {
-    switch (value) {
-        case 0:
-            return TileType.EMPTY_SPACE
-        case 1:
-            return TileType.TREASURE
-        case 2:
-            return TileType.MONSTER
-        case 3:
-            return TileType.WALL
-        default:
-            return TileType.EMPTY_SPACE
+function getFormattedTime(ms: number): string {
+    return `${(ms / 1000).toFixed(2)}s`
+}
+
+function logViolations(violations: readonly RuleViolation[]) {
+    for (const violation of violations) {
+        console.log(`@main> [${violation.rule}] ${violation.message}`)
     }
 }
 
-async function readInputFile(file_name: string): Promise<readonly string[] | null> {
-    const file_path = joinPaths(__dirname, `../input/${file_name}`)
+function logProgress(progress: SearchProgress) {
+    console.error(`@main> (${getFormattedTime(progress.elapsed_ms)}) Explored ${progress.number_of_nodes} nodes, at depth ${progress.depth} in the stage of ${progress.stage}.`)
+}
 
-    if (!existsSync(file_path)) {
-        console.log(`@main> File "${file_name}" doesn\'t exist.`)
-        return null
+function logStatistics(statistics: SearchStatistics | null) {
+    if (statistics === null) {
+        return
     }
 
-    if (!statSync(file_path).isFile()) {
-        console.log(`@main> File "${file_name}" isn\'t readable.`)
-        return null
+    for (const [stage, stage_statistics] of Object.entries(statistics.stages)) {
+        if (stage_statistics === undefined) {
+            continue
+        }
+
+        console.log(`@main> Stage "${stage}": ${stage_statistics.nodes} nodes, ${stage_statistics.backtracks} backtracks.`)
     }
 
-    const file_stream = createReadStream(file_path)
-    const lines_reader = createInterface({
-        input: file_stream,
-        crlfDelay: Infinity
-    })
-    const lines: string[] = []
+    for (const [check_name, check_statistics] of Object.entries(statistics.checks)) {
+        if (check_statistics === undefined) {
+            continue
+        }
 
-    for await (const line of lines_reader) {
-        lines.push(line)
+        console.log(`@main> Check "${check_name}": ${check_statistics.calls} calls, ${check_statistics.elapsed_ms.toFixed(1)}ms.`)
     }
 
-    return lines
+    console.log(`@main> Spent ${statistics.bfs_elapsed_ms.toFixed(1)}ms in BFS.`)
 }
 
-function writeOutputFile(file_name: string, content: string) {
-    const file_path = joinPaths(__dirname, `../output/${file_name}`)
-    writeFileSync(file_path, content)
+function getFailureMessage(solving_result: SolvingResult): string {
+    switch (solving_result.status) {
+        case 'timed out':
+            return `Timed out after exploring ${solving_result.nodes} nodes.`
+        case 'node limit':
+            return `Ran out of the budget of ${solving_result.nodes} nodes, raise "--max-nodes" to search further.`
+        case 'cancelled':
+            return `Cancelled after exploring ${solving_result.nodes} nodes.`
+        default:
+            return 'Failed to find a solution.'
+    }
 }
 
-async function parseInputFile(file_name: string):
-    Promise<readonly [Projection, Projection, RawDiagram] | null> {
+// The failure to parse a level is printed as its record too, so that the output is all JSON.
+async function parseInputFileForJson(file_name: string): Promise<Level | null> {
+    if (file_name !== STDIN_FILE_NAME && !existsInputFile(file_name)) {
+        console.log(JSON.stringify({
+            file: file_name, status: 'invalid', error: `File "${file_name}" doesn't exist.`, diagnostics: []
+        }))
+        return null
+    }
+
     const lines = await readInputFile(file_name)
 
     if (lines === null) {
         return null
     }
 
-    const raw_diagram = duplicate(
-        new Array<TileType>(RAW_SIDE_LENGTH).fill(TileType.EMPTY_SPACE),
-        RAW_SIDE_LENGTH)
-    const row_projection = new Array<NumberOfTilesRange>(RAW_SIDE_LENGTH).fill(0)
-    const column_projection = new Array<NumberOfTilesRange>(RAW_SIDE_LENGTH).fill(0)
-    let number_of_lines = 0
-    let number_of_nonempty_lines = 0
+    const parsing_result = parseLevelLines(lines)
 
-    for (const line of lines) {
-        const trimmed_line = line.trim()
+    if (parsing_result.value === null) {
+        console.log(JSON.stringify({
+            file: file_name, status: 'invalid', error: 'The level is malformed.', diagnostics: parsing_result.diagnostics
+        }))
+    }
 
-        number_of_lines += 1
+    return parsing_result.value
+}
 
-        if (trimmed_line === '') {
-            continue
+function getLevelRecord(file_name: string, level: Level, solving_result: SolvingResult): object {
+    const solution = solving_result.solutions[0] ?? null
+    const diagram = solution === null ? null : augmentRawDiagram(solution)
+    const rule_checks = diagram === null ? null : getRuleChecks(...getTreasureAndMonsterCoords(diagram), diagram)
+
+    return {
+        file: file_name,
+        status: solving_result.status,
+        elapsed_ms: solving_result.elapsed_ms,
+        nodes: solving_result.nodes,
+        row_projection: level.row_projection,
+        column_projection: level.column_projection,
+        grid: solution,
+        treasure_rooms: rule_checks?.treasure_room_lt_coords ?? [],
+        rules: rule_checks === null ? null : {
+            connectivity: rule_checks.connectivity,
+            treasures: rule_checks.treasures,
+            monsters: rule_checks.monsters,
+            hallways: rule_checks.hallways
+        },
+        reasons: solving_result.reasons,
+        statistics: solving_result.statistics
+    }
+}
+
+async function solveMain(file_name: string, engine: EngineName, search_options: SearchOptions,
+    out_file_name: string | null, number_of_branch_workers: number | null, format: RenderingFormat, is_json: boolean) {
+    const level = is_json ? await parseInputFileForJson(file_name) : await parseInputFile(file_name)
+
+    if (level === null) {
+        if (!is_json) {
+            console.log(`@main> Failed to parse file "${file_name}".`)
         }
 
-        number_of_nonempty_lines += 1
+        return
+    }
+
+    const solving_result = number_of_branch_workers === null ? solve(level, { ...search_options, engine: engine }) :
+        await solveBranchesInWorkers(level, { ...search_options, engine: engine }, number_of_branch_workers)
 
-        const values = trimmed_line.split(/[ \f\t\v]+/).map(x => parseInt(x))
+    if (is_json) {
+        console.log(JSON.stringify(getLevelRecord(file_name, level, solving_result)))
+    } else {
+        logStatistics(solving_result.statistics)
+    }
 
-        if (values.length !== RAW_SIDE_LENGTH) {
-            console.log(`@main> File "${file_name}" has ${values.length} numbers ${values.length < RAW_SIDE_LENGTH ? 'less' : 'more'} than ${RAW_SIDE_LENGTH} at line ${number_of_lines}.`)
-            return null
+    if (solving_result.status !== 'solved') {
+        if (!is_json) {
+            console.log(`@main> (${getFormattedTime(solving_result.elapsed_ms)}) ${getFailureMessage(solving_result)}`)
+            logViolations(solving_result.reasons)
         }
 
-        for (let i = 0; i < values.length; i += 1) {
-            if (isNaN(values[i]) || values[i] < 0 ||
-                values[i] > (number_of_nonempty_lines <= 2 ? RAW_SIDE_LENGTH : NUMBER_OF_TILE_TYPES - 1)) {
-                console.log(`@main> File "${file_name}" contains illegal value at line ${number_of_lines}.`)
-                return null
-            }
+        return
+    }
 
-            if (number_of_nonempty_lines === 1) {
-                row_projection[i] = values[i] as NumberOfTilesRange
-            } else if (number_of_nonempty_lines === 2) {
-                column_projection[i] = values[i] as NumberOfTilesRange
-            } else if (number_of_nonempty_lines > 2 &&
-                number_of_nonempty_lines <= RAW_SIDE_LENGTH + 2) {
-                raw_diagram[number_of_nonempty_lines - 3][i] =
-                    getTileType(values[i] as NumberOfTileTypeRange)
-            }
-        }
+    const diagram = augmentRawDiagram(solving_result.solutions[0])
+    const [treasure_coords, monster_coords] = getTreasureAndMonsterCoords(diagram)
+    const ascii_diagram = render(solving_result.solutions[0])
+    const rendered_diagram = render(solving_result.solutions[0], format)
+
+    if (!is_json) {
+        isSolved(treasure_coords, monster_coords, diagram)
+        console.log(`@main> (${getFormattedTime(solving_result.elapsed_ms)}) Successed to find a solution:`)
+        console.log(rendered_diagram)
     }
 
-    if (number_of_nonempty_lines !== RAW_SIDE_LENGTH + 2) {
-        console.log(`@main> File "${file_name}" has ${number_of_nonempty_lines} non-empty lines ${number_of_nonempty_lines < RAW_SIDE_LENGTH + 2 ? 'less' : 'more'} than ${RAW_SIDE_LENGTH + 2}.`)
-        return null
+    if (out_file_name !== null) {
+        writeDestinationFile(out_file_name, rendered_diagram)
+        return
     }
 
-    return [
-        row_projection as unknown as Projection,
-        column_projection as unknown as Projection,
-        raw_diagram as unknown as RawDiagram
-    ]
-}
+    if (!isInputDirectoryFile(file_name)) {
+        if (!is_json && file_name !== STDIN_FILE_NAME) {
+            console.log(`@main> Level "${file_name}" isn't in the input directory, use option "--out" to write the solution.`)
+        }
 
-function augmentRawDiagram(raw_diagram: RawDiagram): Diagram {
-    const diagram =
-        duplicate(new Array<TileType>(SIDE_LENGTH).fill(TileType.WALL), SIDE_LENGTH)
+        return
+    }
 
-    diagram[0] = duplicate(TileType.WALL, SIDE_LENGTH)
-    diagram[SIDE_LENGTH - 1] = duplicate(TileType.WALL, SIDE_LENGTH)
+    // The solution in text is kept in any format, the other commands read it.
+    writeOutputFile(file_name, ascii_diagram)
 
-    for (let x = 0; x < RAW_SIDE_LENGTH; x += 1) {
-        for (let y = 0; y < RAW_SIDE_LENGTH; y += 1) {
-            diagram[x + 1][y + 1] = raw_diagram[x][y]
-        }
+    if (format === 'svg') {
+        writeOutputFile(`${basename(file_name, extname(file_name))}.svg`, rendered_diagram)
     }
+}
 
-    return diagram as Diagram
+// Unknown tiles are written as `.`, like in the files of marks.
+function getGridText(grid: SvgGrid, format: RenderingFormat): string {
+    return grid.map(row => row.map(tile => tile === null ? '.' : format === 'numeric' ? `${tile}` : ASCII_TILES[tile])
+        .join(format === 'numeric' ? ' ' : '')).join('\n')
 }
 
-function getAsciiDiagram(diagram: Diagram, is_render_all: boolean = false): string {
-    let result: string[] = []
-    const start: number = is_render_all ? 0 : 1
-    const end: number = is_render_all ? SIDE_LENGTH : SIDE_LENGTH - 1
+async function renderMain(file_name: string, grid_file_name: string | null, format: RenderingFormat,
+    out_file_name: string | null) {
+    const level = await parseInputFile(file_name)
 
-    for (let x = start; x < end; x += 1) {
-        let line: string[] = []
+    if (level === null) {
+        console.log(`@main> Failed to parse file "${file_name}".`)
+        return
+    }
 
-        for (let y = start; y < end; y += 1) {
-            switch (diagram[x][y]) {
-                case TileType.EMPTY_SPACE:
-                    line.push('-')
-                    break
-                case TileType.TREASURE:
-                    line.push('T')
-                    break
-                case TileType.MONSTER:
-                    line.push('M')
-                    break
-                case TileType.WALL:
-                    line.push('#')
-                    break
-                default:
-                    break
-            }
-        }
+    const marks = grid_file_name === null ? null :
+        await parseGridFile(grid_file_name, level.row_projection.length, level.column_projection.length)
 
-        result.push(line.join(''))
+    if (grid_file_name !== null && marks === null) {
+        console.log(`@main> Failed to parse grid file "${grid_file_name}".`)
+        return
     }
 
-    return result.join('\n')
+    const grid = getSvgGrid(level, marks)
+    const rendered_grid = format === 'svg' ? renderSvg(level, grid) : getGridText(grid, format)
+
+    if (out_file_name !== null) {
+        writeDestinationFile(out_file_name, rendered_grid)
+    } else {
+        console.log(rendered_grid)
+    }
 }
 
-function isTilePlacable(row_i: number, column_i: number,
-    cur_row_projection: Projection, cur_column_projection: Projection,
-    row_projection: Projection, column_projection: Projection): boolean {
+async function verifyMain(file_name: string, solution_file_name: string) {
+    const level = await parseInputFile(file_name)
 
-    if (!(row_i in cur_row_projection && row_i in row_projection &&
-        column_i in cur_column_projection && column_i in column_projection)) {
-        return false
+    if (level === null) {
+        console.log(`@main> Failed to parse file "${file_name}".`)
+        return
     }
 
-    return cur_row_projection[row_i] + 1 <= row_projection[row_i] &&
-        cur_column_projection[column_i] + 1 <= column_projection[column_i]
-}
+    const raw_solution_diagram = await parseSolutionFile(solution_file_name,
+        level.row_projection.length, level.column_projection.length)
 
-function getHashId(x: number, y: number): number {
-    return x * 100 + y
-}
+    if (raw_solution_diagram === null) {
+        console.log(`@main> Failed to parse solution file "${solution_file_name}".`)
+        return
+    }
 
-function isSatisfiedProjections(cur_row_projection: Projection, cur_column_projection: Projection,
-    row_projection: Projection, column_projection: Projection): boolean {
-    if (!(cur_row_projection.length === row_projection.length &&
-        cur_column_projection.length === column_projection.length)) {
-        return false
+    const violations = verify(level, raw_solution_diagram)
+
+    if (violations.length === 0) {
+        console.log(`@main> Solution "${solution_file_name}" satisfies all rules of level "${file_name}".`)
+        return
     }
 
-    for (let i = 0; i < cur_row_projection.length; i += 1) {
-        if (cur_row_projection[i] !== row_projection[i]) {
-            return false
-        }
+    console.log(`@main> Solution "${solution_file_name}" breaks ${violations.length} rule(s) of level "${file_name}":`)
+
+    logViolations(violations)
+    process.exitCode = 1
+}
+
+async function cnfMain(file_name: string, out_file_name: string | null) {
+    const level = await parseInputFile(file_name)
+
+    if (level === null) {
+        console.log(`@main> Failed to parse file "${file_name}".`)
+        return
     }
 
-    for (let i = 0; i < cur_column_projection.length; i += 1) {
-        if (cur_column_projection[i] !== column_projection[i]) {
-            return false
-        }
+    const cnf = encodeLevel(level)
+    const dimacs_text = getDimacsText(cnf)
+
+    if (out_file_name === null && !isInputDirectoryFile(file_name)) {
+        console.log(dimacs_text)
+        return
     }
 
-    return true
-}
+    const cnf_file_name = out_file_name ?? `${basename(file_name, extname(file_name))}.cnf`
 
-function get4DirectionCoords(x: number, y: number): readonly Coordinate[] {
-    return [
-        { x: x, y: y - 1 }, { x: x + 1, y: y },
-        { x: x, y: y + 1 }, { x: x - 1, y: y }
-    ]
-}
+    if (out_file_name !== null) {
+        writeDestinationFile(out_file_name, dimacs_text)
+    } else {
+        writeOutputFile(cnf_file_name, dimacs_text)
+    }
 
-function getTRoomLTCoords(x: number, y: number): readonly Coordinate[] {
-    return [
-        { x: x - 2, y: y - 2 }, { x: x - 1, y: y - 2 }, { x: x, y: y - 2 },
-        { x: x - 2, y: y - 1 }, { x: x - 1, y: y - 1 }, { x: x, y: y - 1 },
-        { x: x - 2, y: y }, { x: x - 1, y: y }, { x: x, y: y }
-    ]
+    console.log(`@main> Wrote ${cnf.number_of_variables} variables and ${cnf.clauses.length} clauses to "${cnf_file_name}".`)
 }
 
-function getTRoomTileCoords(x: number, y: number): readonly Coordinate[] {
-    return [
-        { x: x, y: y }, { x: x + 1, y: y }, { x: x + 2, y: y },
-        { x: x, y: y + 1 }, { x: x + 1, y: y + 1 }, { x: x + 2, y: y + 1 },
-        { x: x, y: y + 2 }, { x: x + 1, y: y + 2 }, { x: x + 2, y: y + 2 }
-    ]
-}
+async function modelMain(file_name: string, model_file_name: string) {
+    const level = await parseInputFile(file_name)
 
-function getTRoomOuterTileCoords(x: number, y: number): readonly Coordinate[] {
-    return [
-        { x: x, y: y - 1 }, { x: x + 1, y: y - 1 }, { x: x + 2, y: y - 1 },
-        { x: x + 3, y: y }, { x: x + 3, y: y + 1 }, { x: x + 3, y: y + 2 },
-        { x: x, y: y + 3 }, { x: x + 1, y: y + 3 }, { x: x + 2, y: y + 3 },
-        { x: x - 1, y: y }, { x: x - 1, y: y + 1 }, { x: x - 1, y: y + 2 }
-    ]
-}
+    if (level === null) {
+        console.log(`@main> Failed to parse file "${file_name}".`)
+        return
+    }
 
-function get4TilesSpaces(x: number, y: number): readonly Coordinate[][] {
-    return [
-        [{ x: x - 1, y: y - 1 }, { x: x, y: y - 1 }, { x: x - 1, y: y }],
-        [{ x: x, y: y - 1 }, { x: x + 1, y: y - 1 }, { x: x + 1, y: y }],
-        [{ x: x + 1, y: y }, { x: x + 1, y: y + 1 }, { x: x, y: y + 1 }],
-        [{ x: x, y: y + 1 }, { x: x - 1, y: y + 1 }, { x: x - 1, y: y }]
-    ]
-}
+    const model = await parseSatModelFile(model_file_name)
 
-function isContainedByTRoom(x: number, y: number,
-    treasure_room_lt_coords: readonly Coordinate[]): boolean {
-    for (const lt_coord of treasure_room_lt_coords) {
-        if (x >= lt_coord.x && x < lt_coord.x + 3 &&
-            y >= lt_coord.y && y < lt_coord.y + 3) {
-            return true
-        }
+    if (model === null) {
+        console.log(`@main> Failed to parse model file "${model_file_name}".`)
+        return
     }
 
-    return false
-}
+    if (!model.is_satisfiable) {
+        console.log(`@main> Model "${model_file_name}" says level "${file_name}" has no solution.`)
+        process.exitCode = 1
+        return
+    }
 
-function isTRoomLTCoordAvailable(x: number, y: number): boolean {
-    return x >= 1 && x < SIDE_LENGTH - 2 &&
-        y >= 1 && y < SIDE_LENGTH - 2
-}
+    const raw_diagram = getRawDiagramFromModel(level, model)
+    const violations = verify(level, raw_diagram)
 
-function isTRoomTilesAvailable(x: number, y: number, diagram: Diagram): boolean {
-    let number_of_empty_spaces = 0
-    let number_of_treasuers = 0
+    console.log(render(raw_diagram))
 
-    for (const tile_coord of getTRoomTileCoords(x, y)) {
-        switch (diagram[tile_coord.x][tile_coord.y]) {
-            case TileType.EMPTY_SPACE:
-                number_of_empty_spaces += 1
-                break
-            case TileType.TREASURE:
-                number_of_treasuers += 1
-                break
-            default: break
-        }
+    if (violations.length === 0) {
+        console.log(`@main> Model "${model_file_name}" satisfies all rules of level "${file_name}".`)
+        return
     }
 
-    return number_of_empty_spaces === 8 && number_of_treasuers === 1
+    console.log(`@main> Model "${model_file_name}" breaks ${violations.length} rule(s) of level "${file_name}":`)
+
+    logViolations(violations)
+    process.exitCode = 1
 }
 
-function isTRoomWallsAvailable(x: number, y: number, diagram: Diagram): boolean {
-    let number_of_walls = 0
+async function validateMain(file_name: string, is_json: boolean) {
+    const lines = await readInputFile(file_name)
 
-    for (const outer_tile_coord of getTRoomOuterTileCoords(x, y)) {
-        if (diagram[outer_tile_coord.x][outer_tile_coord.y] === TileType.WALL) {
-            number_of_walls += 1
-        }
+    if (lines === null) {
+        return
     }
 
-    return number_of_walls === 11
-}
+    const diagnostics = parseLevelLines(lines).diagnostics
 
-function isDeadEnds(x: number, y: number, diagram: Diagram): boolean {
-    let number_of_walls = 0
+    if (diagnostics.length > 0) {
+        process.exitCode = 1
+    }
 
-    for (const outer_tile_coord of get4DirectionCoords(x, y)) {
-        if (diagram[outer_tile_coord.x][outer_tile_coord.y] === TileType.WALL) {
-            number_of_walls += 1
-        }
+    if (is_json) {
+        console.log(JSON.stringify({
+            file: file_name,
+            is_valid: diagnostics.length === 0,
+            diagnostics: diagnostics
+        }, null, 4))
+        return
     }
 
-    return number_of_walls === 3
-}
+    if (diagnostics.length === 0) {
+        console.log(`@main> Level "${file_name}" is valid.`)
+        return
+    }
 
-function checkEmptySpacesConnectivity(diagram: Diagram): boolean {
-    const color_set: ColorSet = {}
-    let sign_count = 0
+    console.log(`@main> Level "${file_name}" has ${diagnostics.length} problem(s):`)
 
-    function bfs(x: number, y: number, sign: number) {
-        const queue: Coordinate[] = [{ x: x, y: y }]
+    for (const diagnostic of diagnostics) {
+        console.log(`@main> File "${file_name}", ${formatParsingDiagnostic(diagnostic)}`)
+    }
+}
 
-        while (queue.length > 0) {
-            const head = queue.shift()
+async function enumerateMain(file_name: string, max_number_of_solutions: number,
+    engine: EngineName, search_options: SearchOptions) {
+    const level = await parseInputFile(file_name)
 
-            if (head === undefined) {
-                break
-            }
+    if (level === null) {
+        console.log(`@main> Failed to parse file "${file_name}".`)
+        return
+    }
 
-            const hash_id = getHashId(head.x, head.y)
+    const solving_result = solve(level, {
+        ...search_options,
+        engine: engine,
+        max_number_of_solutions: max_number_of_solutions
+    })
+    const solutions = solving_result.solutions
+    const elapsed_time = solving_result.elapsed_ms
 
-            if (hash_id in color_set) {
-                continue
-            }
+    logStatistics(solving_result.statistics)
 
-            color_set[hash_id] = sign
+    if (solutions.length === 0) {
+        console.log(`@main> (${getFormattedTime(elapsed_time)}) ${getFailureMessage(solving_result)}`)
+        logViolations(solving_result.reasons)
+        process.exitCode = solving_result.status === 'failed' ? 1 : 3
+        return
+    }
 
-            for (const coord of get4DirectionCoords(head.x, head.y)) {
-                if (diagram[coord.x][coord.y] !== TileType.WALL &&
-                    !(getHashId(coord.x, coord.y) in color_set)) {
-                    queue.push(coord)
-                }
-            }
-        }
+    console.log(`@main> (${getFormattedTime(elapsed_time)}) Found ${solutions.length} solution(s)${solutions.length >= max_number_of_solutions ? ', stopped at the limit' : ''}:`)
+
+    for (let i = 0; i < solutions.length; i += 1) {
+        console.log(`@main> Solution #${i + 1}:`)
+        console.log(render(solutions[i]))
     }
 
-    for (let x = 1; x < SIDE_LENGTH - 1; x += 1) {
-        for (let y = 1; y < SIDE_LENGTH - 1; y += 1) {
-            const hash_id = getHashId(x, y)
+    if (solving_result.status !== 'solved') {
+        console.log(`@main> ${getFailureMessage(solving_result)} There may be more solutions.`)
+        process.exitCode = solutions.length === 1 ? 3 : 2
+        return
+    }
 
-            if (diagram[x][y] !== TileType.WALL) {
-                if (hash_id in color_set) {
-                    if (sign_count <= 1) {
-                        continue
-                    }
+    if (solutions.length === 1) {
+        console.log('@main> The solution is unique.')
+        return
+    }
 
-                    return false
-                }
+    console.log('@main> The solution isn\'t unique.')
+    process.exitCode = 2
+}
 
-                if (sign_count !== 0) {
-                    return false
-                }
+async function loadLevel(file_name: string): Promise<PropagationContext | null> {
+    const level = await parseInputFile(file_name)
 
-                sign_count += 1
-                bfs(x, y, sign_count)
-            }
-        }
+    if (level === null) {
+        console.log(`@main> Failed to parse file "${file_name}".`)
+        return null
     }
 
-    return true
+    return createPropagationContext(level)
 }
 
-function checkTreasuresAndMonstersConnectivity(treasure_coords: readonly Coordinate[],
-    monster_coords: readonly Coordinate[],
-    diagram: Diagram): boolean {
-    const color_set: ColorSet = {}
-    let sign_count = 0
+async function hintMain(file_name: string, marks_file_name: string | null) {
+    const context = await loadLevel(file_name)
 
-    function bfs(x: number, y: number, sign: number) {
-        const queue: Coordinate[] = [{ x: x, y: y }]
-
-        while (queue.length > 0) {
-            const head = queue.shift()
+    if (context === null) {
+        return
+    }
 
-            if (head === undefined) {
-                break
-            }
+    const domains = createDomains(context.diagram)
 
-            const hash_id = getHashId(head.x, head.y)
+    if (marks_file_name !== null) {
+        const marks = await parseMarksFile(marks_file_name,
+            context.row_projection.length, context.column_projection.length)
 
-            if (hash_id in color_set) {
-                continue
-            }
+        if (marks === null) {
+            console.log(`@main> Failed to parse marks file "${marks_file_name}".`)
+            return
+        }
 
-            color_set[hash_id] = sign
+        const conflicting_coord = applyMarks(domains, marks)
 
-            for (const coord of get4DirectionCoords(head.x, head.y)) {
-                if (diagram[coord.x][coord.y] !== TileType.WALL &&
-                    !(getHashId(coord.x, coord.y) in color_set)) {
-                    queue.push(coord)
-                }
-            }
+        if (conflicting_coord !== null) {
+            console.log(`@main> Mark at ${formatCoords([conflicting_coord])} conflicts with the level.`)
+            process.exitCode = 1
+            return
         }
     }
 
+    const broken_rule = getBrokenRule(context, domains)
 
-    for (const coord of [...treasure_coords, ...monster_coords]) {
-        const x = coord.x
-        const y = coord.y
-        const hash_id = getHashId(x, y)
+    if (broken_rule !== null) {
+        console.log(`@main> The marks already break the rule of ${broken_rule}.`)
+        process.exitCode = 1
+        return
+    }
 
-        if (diagram[x][y] !== TileType.WALL) {
-            if (hash_id in color_set) {
-                if (sign_count <= 1) {
-                    continue
-                }
+    const hint = findHint(context, domains)
 
-                return false
-            }
+    if (hint !== null) {
+        console.log(`@main> Hint [${hint.rule}]: ${hint.reason}`)
+        console.log(`@main> Mark ${formatCoords(hint.coords)} as ${getDomainName(hint.domain)}.`)
+        return
+    }
 
-            if (sign_count !== 0) {
-                return false
-            }
+    if (domains.every(row => row.every(domain => domain !== CellDomain.UNKNOWN))) {
+        console.log('@main> All tiles are marked, there is nothing left to deduce.')
+        return
+    }
 
-            sign_count += 1
-            bfs(x, y, sign_count)
-        }
+    if (!searchDomains(context, domains, () => true)) {
+        console.log('@main> No solution agrees with the marks.')
+        process.exitCode = 1
+        return
     }
 
-    return true
+    console.log('@main> No single rule forces the next move, it needs a guess.')
 }
 
-function checkMonsters(monster_coords: readonly Coordinate[], diagram: Diagram): boolean {
-    for (const monster_coord of monster_coords) {
-        const x = monster_coord.x
-        const y = monster_coord.y
+async function explainMain(file_name: string, search_options: SearchOptions) {
+    const level = await parseInputFile(file_name)
 
-        if (diagram[x][y] === TileType.MONSTER &&
-            !isDeadEnds(x, y, diagram)) {
-            return false
-        }
+    if (level === null) {
+        console.log(`@main> Failed to parse file "${file_name}".`)
+        return
     }
 
-    return true
+    const explanation = explainLevel(level, createSearchState(search_options))
+
+    switch (explanation.status) {
+        case 'solvable':
+            console.log('@main> The level has a solution, there is nothing to explain.')
+            break
+        case 'stopped':
+            console.log('@main> Stopped before finding a minimal set of conflicting clues.')
+            process.exitCode = 1
+            break
+        default:
+            console.log(`@main> The level has no solution, ${formatConflict(explanation.clues)}.`)
+            process.exitCode = 1
+            break
+    }
 }
 
-function checkTreasureRooms(treasure_coords: readonly Coordinate[], diagram: Diagram):
-    [boolean, readonly Coordinate[]] {
-    const treasure_room_lt_coords: Coordinate[] = []
+async function playMain(file_name: string) {
+    const context = await loadLevel(file_name)
+
+    if (context === null) {
+        return
+    }
 
-    for (const treasure_coord of treasure_coords) {
-        const x = treasure_coord.x
-        const y = treasure_coord.y
+    if (!process.stdin.isTTY) {
+        console.log('@main> Playing needs an interactive terminal.')
+        process.exitCode = 1
+        return
+    }
 
-        if (diagram[x][y] === TileType.TREASURE) {
-            const lt_coords = getTRoomLTCoords(x, y)
-            let is_satisfied = false
+    const state = createPlayState(context)
+    let message = ''
 
-            for (const lt_coord of lt_coords) {
-                if (!isTRoomLTCoordAvailable(lt_coord.x, lt_coord.y)) {
-                    continue
-                }
+    function draw() {
+        process.stdout.write(`\x1b[2J\x1b[H${getPlayScreen(state, message).replace(/\n/g, '\r\n')}\r\n`)
+    }
 
-                if (!isTRoomTilesAvailable(lt_coord.x, lt_coord.y, diagram)) {
-                    continue
-                }
+    emitKeypressEvents(process.stdin)
+    process.stdin.setRawMode(true)
+    draw()
 
-                if (!isTRoomWallsAvailable(lt_coord.x, lt_coord.y, diagram)) {
-                    continue
-                }
+    await new Promise<void>(resolve => {
+        process.stdin.on('keypress', (_: string | undefined, key: { name?: string, sequence?: string, ctrl?: boolean }) => {
+            message = ''
 
-                is_satisfied = true
-                treasure_room_lt_coords.push(lt_coord)
-                break
+            switch (key.ctrl === true ? `ctrl-${key.name}` : key.name ?? key.sequence) {
+                case 'up':
+                case 'k':
+                    moveCursor(state, -1, 0)
+                    break
+                case 'down':
+                case 'j':
+                    moveCursor(state, 1, 0)
+                    break
+                case 'left':
+                case 'h':
+                    moveCursor(state, 0, -1)
+                    break
+                case 'right':
+                case 'l':
+                    moveCursor(state, 0, 1)
+                    break
+                case 'w':
+                    toggleMark(state, CellDomain.WALL)
+                    break
+                case 'f':
+                    toggleMark(state, CellDomain.FLOOR)
+                    break
+                case 'space':
+                    cycleMark(state)
+                    break
+                case 'u':
+                case 'ctrl-z':
+                    message = undoMove(state) ? '' : 'Nothing to undo.'
+                    break
+                case 'r':
+                case 'ctrl-y':
+                    message = redoMove(state) ? '' : 'Nothing to redo.'
+                    break
+                case 'v':
+                    state.is_showing_violations = !state.is_showing_violations
+                    break
+                case 'q':
+                case 'escape':
+                case 'ctrl-c':
+                    process.stdin.setRawMode(false)
+                    process.stdin.pause()
+                    resolve()
+                    return
+                default:
+                    break
             }
 
-            if (!is_satisfied) {
-                return [false, []]
+            if (isPlaySolved(state)) {
+                message = 'Solved, every rule holds.'
             }
-        }
-    }
 
-    return [true, treasure_room_lt_coords]
+            draw()
+        })
+    })
 }
 
-function checkMonstersAndDeadEnds(monster_coords: readonly Coordinate[], diagram: Diagram): boolean {
-    for (const monster_coord of monster_coords) {
-        const x = monster_coord.x;
-        const y = monster_coord.y;
+async function rateMain(file_names: readonly string[]) {
+    const number_of_levels_per_tier = new Array<number>(RATING_TIERS.length + 1).fill(0)
+    let number_of_failures = 0
 
-        if (!isDeadEnds(x, y, diagram)) {
-            return false;
+    for (const file_name of file_names) {
+        const context = await loadLevel(file_name)
+
+        if (context === null) {
+            number_of_failures += 1
+            continue
         }
-    }
 
-    for (let x = 1; x < SIDE_LENGTH - 1; x += 1) {
-        for (let y = 1; y < SIDE_LENGTH - 1; y += 1) {
-            if (diagram[x][y] === TileType.EMPTY_SPACE &&
-                isDeadEnds(x, y, diagram)) {
-                return false
-            }
+        const rating = rateLevel(context)
+        const number_of_steps = rating.steps_per_tier.reduce((pre, cur) => pre + cur, 0)
+
+        if (!rating.is_solved) {
+            console.log(`@main> Level "${file_name}" has no solution.`)
+            number_of_failures += 1
+            continue
         }
+
+        number_of_levels_per_tier[rating.tier] += 1
+        console.log(`@main> Level "${file_name}" needs tier ${rating.tier} (${RATING_TIER_NAMES[rating.tier - 1] ?? 'none'}) in ${number_of_steps} steps [${rating.steps_per_tier.join(', ')}]${rating.is_backtracking_needed ? ', with backtracking' : ''}.`)
     }
 
-    return true
-}
+    if (file_names.length <= 1) {
+        return
+    }
 
-function checkHallways(treasure_room_lt_coords: readonly Coordinate[], diagram: Diagram): boolean {
-    for (let x = 1; x < SIDE_LENGTH - 1; x += 1) {
-        for (let y = 1; y < SIDE_LENGTH - 1; y += 1) {
-            if (!(diagram[x][y] === TileType.EMPTY_SPACE &&
-                !isContainedByTRoom(x, y, treasure_room_lt_coords))) {
-                continue
-            }
+    console.log(`@main> Rated ${file_names.length - number_of_failures} of ${file_names.length} levels:`)
 
-            if (get4TilesSpaces(x, y).map(
-                space => space.map(
-                    coord => diagram[coord.x][coord.y] === TileType.EMPTY_SPACE &&
-                        !isContainedByTRoom(coord.x, coord.y, treasure_room_lt_coords) ? 1 : 0 as number
-                ).reduce((pre, cur) => pre + cur, 0) >= 3 ? 1 : 0 as number
-            ).reduce((pre, cur) => pre + cur, 0) > 0) {
-                return false
-            }
+    for (let tier = 0; tier < number_of_levels_per_tier.length; tier += 1) {
+        if (number_of_levels_per_tier[tier] > 0) {
+            console.log(`@main> Tier ${tier} (${RATING_TIER_NAMES[tier - 1] ?? 'none'}): ${number_of_levels_per_tier[tier]} level(s).`)
         }
     }
-
-    return true
 }
 
-function isSolved(treasure_coords: readonly Coordinate[], monster_coords: readonly Coordinate[], diagram: Diagram): boolean {
-    const flag_connectivity = checkEmptySpacesConnectivity(diagram)
-    if (!flag_connectivity) {
+async function runRegressionTest(file_name: string, engine: EngineName): Promise<boolean> {
+    const level = await parseInputFile(file_name)
+
+    if (level === null) {
         return false
     }
 
-    const [flag_treasures, treasure_room_lt_coords] =
-        checkTreasureRooms(treasure_coords, diagram)
-    if (!flag_treasures) {
+    const solving_result = solve(level, { engine: engine, timeout: REGRESSION_TEST_TIMEOUT })
+
+    if (solving_result.status !== 'solved' || verify(level, solving_result.solutions[0]).length > 0) {
         return false
     }
 
-    const flag_monsters = checkMonstersAndDeadEnds(monster_coords, diagram)
-    if (!flag_monsters) {
-        return false
+    if (!existsOutputFile(file_name)) {
+        return true
     }
 
-    const falg_hallways = checkHallways(treasure_room_lt_coords, diagram)
-    if (!falg_hallways) {
+    const raw_stored_diagram = await parseSolutionFile(file_name,
+        level.row_projection.length, level.column_projection.length)
+
+    if (raw_stored_diagram === null) {
         return false
     }
 
-    console.log(`@main> Check connectivity: ${flag_connectivity}.`)
-    console.log(`@main> Check treasures: ${flag_treasures}.`)
-    console.log(`@main> Check monsters: ${flag_monsters}.`)
-    console.log(`@main> Check hallways: ${falg_hallways}.`)
-
-    return true
+    // The stored solution may differ from the found one when a level has several solutions,
+    // then both of them should satisfy all rules.
+    return render(raw_stored_diagram) === render(solving_result.solutions[0]) ||
+        verify(level, raw_stored_diagram).length === 0
 }
 
-function getCombinations(m: number, n: number): number[][] {
-    if (m > n) {
-        return []
-    }
+async function testMain(engine: EngineName) {
+    const test_cases: TestCase[] = [
+        ...UNIT_TEST_CASES,
+        ...listInputFiles().map(file_name => ({
+            name: `solving "${file_name}" agrees with the stored solution`,
+            run: () => runRegressionTest(file_name, engine)
+        }))
+    ]
+    let number_of_passed_cases = 0
 
-    const result: number[][] = [];
+    for (const test_case of test_cases) {
+        const is_passed = await test_case.run()
 
-    (function recursiveSelect(step: number, cur_combination: number[]) {
-        if (cur_combination.length === m) {
-            result.push(Array.from(cur_combination))
-            return
+        if (is_passed) {
+            number_of_passed_cases += 1
         }
 
-        if (step >= n) {
-            return
-        }
+        console.log(`@main> [${is_passed ? 'pass' : 'fail'}] ${test_case.name}`)
+    }
 
-        cur_combination.push(step)
-        recursiveSelect(step + 1, cur_combination)
-        cur_combination.pop()
+    console.log(`@main> Passed ${number_of_passed_cases} of ${test_cases.length} tests.`)
 
-        if (cur_combination.length + (n - 1 - step) >= m) {
-            recursiveSelect(step + 1, cur_combination)
-        }
-    })(0, []);
+    if (number_of_passed_cases !== test_cases.length) {
+        process.exitCode = 1
+    }
+}
 
-    return result
+function getGlobRegExp(pattern: string): RegExp {
+    return new RegExp(`^${pattern.replace(/[.+^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*').replace(/\?/g, '.')}$`)
 }
 
-function dfs(diagram: Diagram,
-    row_projection: Projection, column_projection: Projection,
-    treasure_coords: readonly Coordinate[], monster_coords: readonly Coordinate[]) {
-    function dfs_(step: number,
-        cur_row_projection: MutableProjection, cur_column_projection: MutableProjection,
-        handled_treasure_ids: number[], handled_monster_ids: number[],
-        treasure_room_lt_coords: Coordinate[],): boolean {
-        if (isSatisfiedProjections(cur_row_projection, cur_column_projection, row_projection, column_projection)) {
-            return isSolved(treasure_coords, monster_coords, diagram)
+async function batchMain(pattern: string, engine: EngineName, search_options: SearchOptions, number_of_workers: number,
+    is_json: boolean) {
+    const glob_regexp = getGlobRegExp(pattern)
+    const file_names = listInputFiles().filter(file_name => glob_regexp.test(file_name))
+    const records: {
+        name: string, status: string, elapsed_ms: number, nodes: number, statistics: SearchStatistics | null
+    }[] = []
+    const levels: { file_name: string, level: Level }[] = []
+
+    for (const file_name of file_names) {
+        const level = is_json ? await parseInputFileForJson(file_name) : await parseInputFile(file_name)
+
+        if (level === null) {
+            if (!is_json) {
+                console.log(`@main> Failed to parse file "${file_name}".`)
+            }
+
+            records.push({ name: file_name, status: 'failed', elapsed_ms: 0, nodes: 0, statistics: null })
+            continue
         }
 
-        // Enumerate treasures
-        for (const treasure_coord of treasure_coords) {
-            const x = treasure_coord.x
-            const y = treasure_coord.y
-            const hash_id = getHashId(x, y)
+        levels.push({ file_name: file_name, level: level })
+    }
 
-            if (!(diagram[x][y] === TileType.TREASURE &&
-                !handled_treasure_ids.includes(hash_id))) {
-                continue
-            }
+    function addRecord(file_name: string, level: Level, solving_result: SolvingResult) {
+        if (solving_result.status === 'solved') {
+            writeOutputFile(file_name, render(solving_result.solutions[0]))
+        }
 
-            lroom_loop:
-            for (const lt_coord of getTRoomLTCoords(x, y)) {
-                if (!isTRoomLTCoordAvailable(lt_coord.x, lt_coord.y)) {
-                    continue lroom_loop
-                }
-
-                if (!isTRoomTilesAvailable(lt_coord.x, lt_coord.y, diagram)) {
-                    continue lroom_loop
-                }
-
-                const outer_tile_coords = getTRoomOuterTileCoords(lt_coord.x, lt_coord.y)
-                const empty_space_coords = outer_tile_coords.filter(tile => diagram[tile.x][tile.y] === TileType.EMPTY_SPACE)
-
-                for (const tile_coord of outer_tile_coords) {
-                    if (diagram[tile_coord.x][tile_coord.y] !== TileType.WALL &&
-                        diagram[tile_coord.x][tile_coord.y] !== TileType.EMPTY_SPACE) {
-                        continue lroom_loop
-                    }
-                }
-
-                if (empty_space_coords.length < 1) {
-                    return false
-                } else {
-                    for (let i = 0; i < empty_space_coords.length; i += 1) {
-                        let placed_indices: number[] = []
-
-                        for (let j = 0; j < empty_space_coords.length; j += 1) {
-                            if (j === i) {
-                                continue
-                            }
-
-                            const row_i = empty_space_coords[j].x - 1
-                            const column_i = empty_space_coords[j].y - 1
-
-                            if (!isTilePlacable(row_i, column_i,
-                                cur_row_projection, cur_column_projection,
-                                row_projection, column_projection)) {
-                                break
-                            }
-
-                            diagram[empty_space_coords[j].x][empty_space_coords[j].y] = TileType.WALL
-                            cur_row_projection[row_i] += 1
-                            cur_column_projection[column_i] += 1
-                            placed_indices.push(j)
-                        }
-
-                        if (placed_indices.length === empty_space_coords.length - 1 &&
-                            checkTreasuresAndMonstersConnectivity(treasure_coords, monster_coords, diagram)) {
-                            handled_treasure_ids.push(hash_id)
-                            treasure_room_lt_coords.push(lt_coord)
-
-                            if (dfs_(step + 1, cur_row_projection, cur_column_projection,
-                                handled_treasure_ids, handled_monster_ids,
-                                treasure_room_lt_coords)) {
-                                return true
-                            }
-
-                            handled_treasure_ids.pop()
-                            treasure_room_lt_coords.pop()
-                        }
-
-                        for (let k = 0; k < placed_indices.length; k += 1) {
-                            diagram[
-                                empty_space_coords[placed_indices[k]].x
-                            ][
-                                empty_space_coords[placed_indices[k]].y] = TileType.EMPTY_SPACE
-                            cur_row_projection[
-                                empty_space_coords[placed_indices[k]].x - 1] -= 1
-                            cur_column_projection[
-                                empty_space_coords[placed_indices[k]].y - 1] -= 1
-                        }
-                    }
-                }
-            }
+        records.push({
+            name: file_name,
+            status: solving_result.status,
+            elapsed_ms: solving_result.elapsed_ms,
+            nodes: solving_result.nodes,
+            statistics: solving_result.statistics
+        })
 
-            return false
+        if (is_json) {
+            console.log(JSON.stringify(getLevelRecord(file_name, level, solving_result)))
+            return
         }
 
-        if (handled_treasure_ids.length !== treasure_coords.length) {
-            return false
+        console.log(`@main> (${getFormattedTime(solving_result.elapsed_ms)}) Level "${file_name}" ${solving_result.status}.`)
+        logViolations(solving_result.reasons)
+    }
+
+    // A single worker gains nothing over solving in place, which also keeps the trace working.
+    if (number_of_workers > 1) {
+        await solveLevelsInWorkers(levels.map(({ level }) => level), { ...search_options, engine: engine },
+            number_of_workers, (level_i, solving_result) => addRecord(levels[level_i].file_name, levels[level_i].level, solving_result))
+    } else {
+        for (const { file_name, level } of levels) {
+            addRecord(file_name, level, solve(level, { ...search_options, engine: engine }))
         }
+    }
 
-        // Enumerate monsters
-        for (const monster_coord of monster_coords) {
-            const x = monster_coord.x
-            const y = monster_coord.y
-            const hash_id = getHashId(x, y)
+    // Workers finish in any order.
+    records.sort((a, b) => file_names.indexOf(a.name) - file_names.indexOf(b.name))
 
-            if (!(diagram[x][y] === TileType.MONSTER &&
-                !handled_monster_ids.includes(hash_id))) {
-                continue
-            }
+    const name_width = Math.max(5, ...records.map(record => record.name.length))
+    const summary = {
+        solved: records.filter(record => record.status === 'solved').length,
+        failed: records.filter(record => record.status === 'failed').length,
+        timed_out: records.filter(record => record.status === 'timed out').length,
+        node_limit: records.filter(record => record.status === 'node limit').length
+    }
 
-            const outer_tile_coords = get4DirectionCoords(x, y)
-            const empty_space_coords = outer_tile_coords.filter(tile => diagram[tile.x][tile.y] === TileType.EMPTY_SPACE)
-            let number_of_walls = 0
-
-            for (const tile_coord of outer_tile_coords) {
-                switch (diagram[tile_coord.x][tile_coord.y]) {
-                    case TileType.EMPTY_SPACE:
-                        break
-                    case TileType.WALL:
-                        number_of_walls += 1
-                        break
-                    default:
-                        return false
-                }
-            }
+    if (!is_json) {
+        console.log(`@main> ${'Level'.padEnd(name_width)}  ${'Status'.padEnd(10)}  ${'Time'.padStart(8)}  ${'Nodes'.padStart(10)}`)
 
-            if (number_of_walls >= 4) {
-                return false
-            }
+        for (const record of records) {
+            console.log(`@main> ${record.name.padEnd(name_width)}  ${record.status.padEnd(10)}  ${getFormattedTime(record.elapsed_ms).padStart(8)}  ${`${record.nodes}`.padStart(10)}`)
+        }
 
-            for (let i = 0; i < empty_space_coords.length; i += 1) {
-                let placed_indices: number[] = []
-
-                for (let j = 0; j < empty_space_coords.length; j += 1) {
-                    if (j === i) {
-                        continue
-                    }
-
-                    const row_i = empty_space_coords[j].x - 1
-                    const column_i = empty_space_coords[j].y - 1
-
-                    if (!isTilePlacable(row_i, column_i,
-                        cur_row_projection, cur_column_projection, row_projection, column_projection)) {
-                        break
-                    }
-
-                    diagram[empty_space_coords[j].x][empty_space_coords[j].y] = TileType.WALL
-                    cur_row_projection[row_i] += 1
-                    cur_column_projection[column_i] += 1
-                    placed_indices.push(j)
-                }
-
-                if (placed_indices.length === empty_space_coords.length - 1 &&
-                    checkTreasuresAndMonstersConnectivity(treasure_coords, monster_coords, diagram)) {
-                    handled_monster_ids.push(hash_id)
-
-                    if (dfs_(step + 1, cur_row_projection, cur_column_projection,
-                        handled_treasure_ids, handled_monster_ids,
-                        treasure_room_lt_coords)) {
-                        return true
-                    }
-
-                    handled_monster_ids.pop()
-                }
-
-                for (let k = 0; k < placed_indices.length; k += 1) {
-                    diagram[
-                        empty_space_coords[placed_indices[k]].x
-                    ][
-                        empty_space_coords[placed_indices[k]].y] = TileType.EMPTY_SPACE
-                    cur_row_projection[
-                        empty_space_coords[placed_indices[k]].x - 1] -= 1
-                    cur_column_projection[
-                        empty_space_coords[placed_indices[k]].y - 1] -= 1
-                }
-            }
+        console.log(`@main> Solved ${summary.solved}, failed ${summary.failed}, timed out ${summary.timed_out}, ` +
+            `out of nodes ${summary.node_limit} of ${records.length} levels.`)
+    }
+
+    writeOutputFile(BATCH_SUMMARY_FILE_NAME, JSON.stringify({
+        engine: engine,
+        timeout_ms: isFinite(search_options.timeout ?? Infinity) ? search_options.timeout : null,
+        levels: records,
+        summary: summary
+    }, null, 4))
 
-            return false
+    if (summary.solved !== records.length) {
+        process.exitCode = 1
+    }
+}
+
+async function compareMain(pattern: string, engines: readonly EngineName[], search_options: SearchOptions) {
+    const glob_regexp = getGlobRegExp(pattern)
+    const file_names = listInputFiles().filter(file_name => glob_regexp.test(file_name))
+    let number_of_disagreements = 0
+
+    for (const file_name of file_names) {
+        const level = await parseInputFile(file_name)
+
+        if (level === null) {
+            console.log(`@main> Failed to parse file "${file_name}".`)
+            number_of_disagreements += 1
+            continue
         }
 
-        if (handled_monster_ids.length !== monster_coords.length) {
-            return false
+        // Two solutions are enough to tell a unique solution from several.
+        const results = engines.map(engine => ({
+            engine: engine,
+            solving_result: solve(level, { ...search_options, engine: engine, max_number_of_solutions: 2 })
+        }))
+        const finished_results = results.filter(({ solving_result }) => solving_result.status === 'solved' ||
+            solving_result.status === 'failed')
+        const outcomes = finished_results.map(({ solving_result }) =>
+            solving_result.solutions.length === 1 ? render(solving_result.solutions[0]) : `${solving_result.solutions.length}`)
+        const invalid_engines = finished_results.filter(({ solving_result }) =>
+            solving_result.solutions.some(solution => verify(level, solution).length > 0)).map(({ engine }) => engine)
+        const is_agreed = invalid_engines.length === 0 && outcomes.every(outcome => outcome === outcomes[0])
+
+        console.log(`@main> Level "${file_name}" ${is_agreed ? 'agreed' : 'disagreed'}: ${results.map(({ engine, solving_result }) =>
+            `${engine} ${solving_result.status === 'solved' && solving_result.solutions.length > 1 ? 'not unique' : solving_result.status} (${getFormattedTime(solving_result.elapsed_ms)})`).join(', ')}.`)
+
+        if (invalid_engines.length > 0) {
+            console.log(`@main> Solutions of ${invalid_engines.join(', ')} break the rules.`)
         }
 
-        // Enumerate empty spaces
-        for (let row_i = 0; row_i < cur_row_projection.length; row_i += 1) {
-            const difference = row_projection[row_i] - cur_row_projection[row_i]
+        if (!is_agreed) {
+            number_of_disagreements += 1
+        }
+    }
 
-            if (difference <= 0) {
-                continue
-            }
+    console.log(`@main> Engines disagreed on ${number_of_disagreements} of ${file_names.length} levels.`)
 
-            const available_coords: Coordinate[] = []
+    if (number_of_disagreements > 0) {
+        process.exitCode = 1
+    }
+}
 
-            for (let column_i = 0; column_i < cur_column_projection.length; column_i += 1) {
-                if (cur_column_projection[column_i] >= column_projection[column_i]) {
-                    continue
-                }
+function serveMain(host: string, port: number, engine: EngineName, search_options: SearchOptions) {
+    const server = createSolvingServer({ engine: engine, search_options: search_options })
 
-                const x = row_i + 1
-                const y = column_i + 1
+    server.on('error', error => {
+        console.log(`@main> Failed to serve: ${error.message}`)
+        process.exitCode = 1
+    })
+    server.listen(port, host, () => console.log(`@main> Serving on http://${host}:${port}/, press Ctrl+C to stop.`))
+}
 
-                if (!(diagram[x][y] === TileType.EMPTY_SPACE &&
-                    !isContainedByTRoom(x, y, treasure_room_lt_coords) &&
-                    isTilePlacable(row_i, column_i, cur_row_projection, cur_column_projection,
-                        row_projection, column_projection))) {
-                    continue
-                }
+async function generateMain(file_name: string, height: number, width: number, seed: number) {
+    if (existsInputFile(file_name)) {
+        console.log(`@main> File "${file_name}" already exists.`)
+        return
+    }
 
-                diagram[x][y] = TileType.WALL
-                cur_row_projection[row_i] += 1
-                cur_column_projection[column_i] += 1
+    const start_time = (new Date()).getTime()
+    const generating_result = generateLevel(height, width, createRandom(seed), MAX_NUMBER_OF_GENERATING_ATTEMPTS)
 
-                if (checkTreasureRooms(treasure_coords, diagram) &&
-                    checkMonsters(monster_coords, diagram) &&
-                    checkTreasuresAndMonstersConnectivity(treasure_coords, monster_coords, diagram)) {
-                    available_coords.push({ x: x, y: y })
-                }
+    if (generating_result === null) {
+        console.log(`@main> (${getFormattedTime(getElapsedTime(start_time))}) Failed to generate a level with a unique solution from seed ${seed}.`)
+        process.exitCode = 1
+        return
+    }
 
-                diagram[x][y] = TileType.EMPTY_SPACE
-                cur_row_projection[row_i] -= 1
-                cur_column_projection[column_i] -= 1
-            }
+    const [row_projection, column_projection, raw_diagram, solution_diagram, number_of_attempts] = generating_result
+    const level_text = getLevelText(row_projection, column_projection, raw_diagram)
 
-            if (available_coords.length < difference) {
-                return false
-            }
+    console.log(`@main> (${getFormattedTime(getElapsedTime(start_time))}) Generated level "${file_name}" from seed ${seed} after ${number_of_attempts} attempt(s):`)
+    console.log(level_text)
+    console.log('@main> Solution:')
+    console.log(getAsciiDiagram(solution_diagram))
+    writeInputFile(file_name, level_text)
+}
 
-            for (const combination of getCombinations(difference, available_coords.length)) {
-                for (const index of combination) {
-                    const x = available_coords[index].x
-                    const y = available_coords[index].y
-
-                    diagram[x][y] = TileType.WALL
-                    cur_row_projection[x - 1] += 1
-                    cur_column_projection[y - 1] += 1
-                }
-
-                if (checkTreasureRooms(treasure_coords, diagram) &&
-                    checkMonsters(monster_coords, diagram) &&
-                    checkTreasuresAndMonstersConnectivity(treasure_coords, monster_coords, diagram)) {
-                    if (dfs_(step + 1, cur_row_projection, cur_column_projection,
-                        handled_treasure_ids, handled_monster_ids,
-                        treasure_room_lt_coords)) {
-                        return true
-                    }
-                }
-
-                for (const index of combination) {
-                    const x = available_coords[index].x
-                    const y = available_coords[index].y
-
-                    diagram[x][y] = TileType.EMPTY_SPACE
-                    cur_row_projection[x - 1] -= 1
-                    cur_column_projection[y - 1] -= 1
-                }
-            }
+function benchmarkMain(iterations: number, seed: number) {
+    const subjects = createBenchmarkSubjects(NUMBER_OF_BENCHMARK_DUNGEONS, 8, 8, seed)
+    const records = runBenchmark(subjects, iterations)
+    const name_width = Math.max(5, ...records.map(record => record.name.length))
 
-            return false
-        }
+    console.log(`@main> Ran each check ${iterations} times on ${subjects.length} diagrams from seed ${seed}:`)
+    console.log(`@main> ${'Check'.padEnd(name_width)}  ${'Array'.padStart(10)}  ${'Bitboard'.padStart(10)}  ${'Speedup'.padStart(8)}  Agreed`)
 
-        return false
+    for (const record of records) {
+        console.log(`@main> ${record.name.padEnd(name_width)}  ${`${record.array_ms.toFixed(1)}ms`.padStart(10)}  ${`${record.bitboard_ms.toFixed(1)}ms`.padStart(10)}  ${`${(record.array_ms / record.bitboard_ms).toFixed(1)}x`.padStart(8)}  ${record.is_agreed ? 'yes' : 'no'}`)
     }
 
-    const cur_row_projection: MutableProjection = [0, 0, 0, 0, 0, 0, 0, 0]
-    const cur_column_projection: MutableProjection = [0, 0, 0, 0, 0, 0, 0, 0]
-
-    return dfs_(0, cur_row_projection, cur_column_projection,
-        [], [], [],)
+    if (records.some(record => !record.is_agreed)) {
+        process.exitCode = 1
+    }
 }
 
-function getTreasureAndMonsterCoords(diagram: Diagram): readonly [readonly Coordinate[], readonly Coordinate[]] {
-    const treasure_coords: Coordinate[] = []
-    const monster_coords: Coordinate[] = []
+function getSearchOptions(args: readonly string[], default_timeout: number): SearchOptions | null {
+    const timeout = parseFloat(getOptionValue(args, '--timeout') ?? `${default_timeout}`)
+    const max_nodes_option = getOptionValue(args, '--max-nodes')
+    const max_number_of_nodes = max_nodes_option === null ? Infinity : parseInt(max_nodes_option)
+    const trace_file_name = getOptionValue(args, '--trace')
 
-    for (let x = 1; x < SIDE_LENGTH - 1; x += 1) {
-        for (let y = 1; y < SIDE_LENGTH - 1; y += 1) {
-            switch (diagram[x][y]) {
-                case TileType.TREASURE:
-                    treasure_coords.push({ x: x, y: y })
-                    break
-                case TileType.MONSTER:
-                    monster_coords.push({ x: x, y: y })
-                    break
-                default:
-                    break
-            }
-        }
+    if (isNaN(timeout) || timeout <= 0) {
+        console.log('@main> Option "--timeout" should be a positive number.')
+        return null
     }
 
-    return [treasure_coords, monster_coords]
+    if (isNaN(max_number_of_nodes) || max_number_of_nodes <= 0) {
+        console.log('@main> Option "--max-nodes" should be a positive number.')
+        return null
+    }
+
+    return {
+        timeout: timeout * 1000,
+        max_number_of_nodes: max_number_of_nodes,
+        on_progress: args.includes('--progress') ? logProgress : undefined,
+        is_collecting_statistics: args.includes('--stats'),
+        on_trace: trace_file_name === null ? undefined : getTraceWriter(trace_file_name)
+    }
 }
 
-function getElapsedTime(start_time: number): number {
-    return Math.abs((new Date()).getTime() - start_time)
+function getTraceWriter(file_name: string): (event: TraceEvent) => void {
+    const file_descriptor = openDestinationFile(file_name)
+
+    process.on('exit', () => closeDestinationFile(file_descriptor))
+
+    return event => writeDestinationLine(file_descriptor, JSON.stringify(event))
 }
 
-function getFormattedTime(ms: number): string {
-    return `${(ms / 1000).toFixed(2)}s`
+function getOptionValue(args: readonly string[], option_name: string): string | null {
+    const index = args.indexOf(option_name)
+
+    if (index < 0 || index + 1 >= args.length) {
+        return null
+    }
+
+    return args[index + 1]
 }
 
 (async () => {
@@ -940,30 +926,220 @@ function getFormattedTime(ms: number): string {
         return
     }
 
-    const file_name = process.argv[2] ?? ""
-    const parsing_result = await parseInputFile(file_name)
+    const command = process.argv[2] ?? ""
+    const engine = getOptionValue(process.argv, '--engine') ?? 'propagation'
 
-    if (parsing_result === null) {
-        console.log(`@main> Failed to parse file "${file_name}".`)
+    if (!isEngineName(engine)) {
+        console.log(`@main> Engine "${engine}" doesn\'t exist.`)
         return
     }
 
-    const [row_projection, column_projection, raw_diagram] = parsing_result
-    const diagram = augmentRawDiagram(raw_diagram)
-    const [treasure_coords, monster_coords] = getTreasureAndMonsterCoords(diagram)
+    // Only batch, compare and serve stop by default, so that a single level may take as long as it needs.
+    const search_options = getSearchOptions(process.argv,
+        command === 'batch' || command === 'compare' || command === 'serve' ? 60 : Infinity)
 
-    const start_time = (new Date()).getTime()
+    if (search_options === null) {
+        return
+    }
 
-    if (!dfs(diagram,
-        row_projection, column_projection,
-        treasure_coords, monster_coords)) {
-        console.log(`@main> (${getFormattedTime(getElapsedTime(start_time))}) Failed to find a solution.`)
+    const format = getOptionValue(process.argv, '--format') ?? 'ascii'
+
+    if (!isRenderingFormat(format)) {
+        console.log(`@main> Format "${format}" doesn\'t exist.`)
         return
     }
 
-    const ascii_diagram = getAsciiDiagram(diagram)
+    const number_of_workers = parseInt(getOptionValue(process.argv, '--workers') ?? `${getDefaultNumberOfWorkers()}`)
 
-    console.log(`@main> (${getFormattedTime(getElapsedTime(start_time))}) Successed to find a solution:`)
-    console.log(ascii_diagram)
-    writeOutputFile(file_name, ascii_diagram)
+    if (isNaN(number_of_workers) || number_of_workers < 1) {
+        console.log('@main> Option "--workers" should be a positive number.')
+        return
+    }
+
+    // The trace is written from the main thread, a search in the workers can't reach it.
+    if (search_options.on_trace !== undefined && (process.argv.includes('--split') || command === 'serve' ||
+        (command === 'batch' && number_of_workers > 1))) {
+        console.log('@main> Option "--trace" only works when solving in place, without "--split", "serve" or "--workers" above 1 in batch.')
+        return
+    }
+
+    switch (command) {
+        case 'verify': {
+            if (process.argv.length < 4) {
+                console.log('@main> No argument of input provided.')
+                return
+            }
+
+            const file_name = process.argv[3] ?? ""
+            await verifyMain(file_name, process.argv[4] ?? file_name)
+            break
+        }
+        case 'validate':
+            if (process.argv.length < 4) {
+                console.log('@main> No argument of input provided.')
+                return
+            }
+
+            await validateMain(process.argv[3] ?? "", process.argv.includes('--json'))
+            break
+        case 'enumerate': {
+            if (process.argv.length < 4) {
+                console.log('@main> No argument of input provided.')
+                return
+            }
+
+            const max_option = getOptionValue(process.argv, '--max')
+            const max_number_of_solutions = max_option === null ? Infinity : parseInt(max_option)
+
+            if (isNaN(max_number_of_solutions) || max_number_of_solutions < 2) {
+                console.log(`@main> Option "--max" should be a number not less than 2.`)
+                return
+            }
+
+            await enumerateMain(process.argv[3] ?? "", max_number_of_solutions, engine, search_options)
+            break
+        }
+        case 'hint': {
+            if (process.argv.length < 4) {
+                console.log('@main> No argument of input provided.')
+                return
+            }
+
+            const marks_file_name = process.argv[4]
+
+            await hintMain(process.argv[3] ?? "",
+                marks_file_name === undefined || marks_file_name.startsWith('--') ? null : marks_file_name)
+            break
+        }
+        case 'explain':
+            if (process.argv.length < 4) {
+                console.log('@main> No argument of input provided.')
+                return
+            }
+
+            await explainMain(process.argv[3] ?? "", search_options)
+            break
+        case 'render': {
+            if (process.argv.length < 4) {
+                console.log('@main> No argument of input provided.')
+                return
+            }
+
+            const grid_file_name = process.argv[4]
+
+            await renderMain(process.argv[3] ?? "", grid_file_name === undefined || grid_file_name.startsWith('--') ?
+                null : grid_file_name, format, getOptionValue(process.argv, '--out'))
+            break
+        }
+        case 'play':
+            if (process.argv.length < 4) {
+                console.log('@main> No argument of input provided.')
+                return
+            }
+
+            await playMain(process.argv[3] ?? "")
+            break
+        case 'batch': {
+            const pattern = process.argv[3]
+
+            await batchMain(pattern === undefined || pattern.startsWith('--') ? '*' : pattern,
+                engine, search_options, number_of_workers, process.argv.includes('--json'))
+            break
+        }
+        case 'compare': {
+            const pattern = process.argv[3]
+            const engines = (getOptionValue(process.argv, '--engines') ?? ENGINE_NAMES.join(',')).split(',')
+            const unknown_engine = engines.find(engine => !isEngineName(engine))
+
+            if (unknown_engine !== undefined) {
+                console.log(`@main> Engine "${unknown_engine}" doesn\'t exist.`)
+                return
+            }
+
+            await compareMain(pattern === undefined || pattern.startsWith('--') ? '*' : pattern,
+                engines.filter(isEngineName), search_options)
+            break
+        }
+        case 'test':
+            await testMain(engine)
+            break
+        case 'rate': {
+            const file_name = process.argv[3]
+
+            await rateMain(file_name === undefined || file_name.startsWith('--') ?
+                listInputFiles() : [file_name])
+            break
+        }
+        case 'cnf':
+            if (process.argv.length < 4) {
+                console.log('@main> No argument of input provided.')
+                return
+            }
+
+            await cnfMain(process.argv[3] ?? "", getOptionValue(process.argv, '--out'))
+            break
+        case 'model':
+            if (process.argv.length < 5) {
+                console.log('@main> No argument of input provided.')
+                return
+            }
+
+            await modelMain(process.argv[3] ?? "", process.argv[4] ?? "")
+            break
+        case 'serve': {
+            const port = parseInt(getOptionValue(process.argv, '--port') ?? '8080')
+
+            if (isNaN(port) || port < 0 || port > 65535) {
+                console.log('@main> Option "--port" should be a number from 0 to 65535.')
+                return
+            }
+
+            serveMain(getOptionValue(process.argv, '--host') ?? '127.0.0.1', port, engine, search_options)
+            break
+        }
+        case 'benchmark': {
+            const iterations = parseInt(getOptionValue(process.argv, '--iterations') ?? '100')
+            const seed = parseInt(getOptionValue(process.argv, '--seed') ?? '0')
+
+            if (isNaN(iterations) || iterations < 1) {
+                console.log('@main> Option "--iterations" should be a positive number.')
+                return
+            }
+
+            if (isNaN(seed)) {
+                console.log('@main> Option "--seed" should be a number.')
+                return
+            }
+
+            benchmarkMain(iterations, seed)
+            break
+        }
+        case 'generate': {
+            if (process.argv.length < 4) {
+                console.log('@main> No argument of input provided.')
+                return
+            }
+
+            const height = parseInt(getOptionValue(process.argv, '--height') ?? '8')
+            const width = parseInt(getOptionValue(process.argv, '--width') ?? '8')
+            const seed = parseInt(getOptionValue(process.argv, '--seed') ?? `${(new Date()).getTime() % 4294967296}`)
+
+            if (isNaN(height) || isNaN(width) || height < 1 || width < 1) {
+                console.log('@main> Options "--height" and "--width" should be positive numbers.')
+                return
+            }
+
+            if (isNaN(seed)) {
+                console.log('@main> Option "--seed" should be a number.')
+                return
+            }
+
+            await generateMain(process.argv[3] ?? "", height, width, seed)
+            break
+        }
+        default:
+            await solveMain(command, engine, search_options, getOptionValue(process.argv, '--out'),
+                process.argv.includes('--split') ? number_of_workers : null, format, process.argv.includes('--json'))
+            break
+    }
 })();
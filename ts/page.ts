@@ -0,0 +1,174 @@
+import { EngineName, ENGINE_NAMES } from './engines.js'
+
+const PAGE_SIZE = 8
+
+const PAGE_STYLE = `
+body { font-family: sans-serif; margin: 2em; }
+table { border-collapse: collapse; }
+td { width: 2.2em; height: 2.2em; text-align: center; border: 1px solid #999; }
+td.projection { border: none; }
+td.projection input { width: 2em; text-align: center; }
+#board td.tile { cursor: pointer; }
+td.wall { background: #444; color: #eee; }
+td.room { background: #f4e3a1; }
+td.treasure { color: #b8860b; font-weight: bold; }
+td.monster { color: #c0392b; font-weight: bold; }
+td.hint { outline: 3px solid #2980b9; }
+#errors { color: #c0392b; }
+`
+
+const PAGE_SCRIPT = `
+const tiles = Array.from({ length: SIZE }, () => new Array(SIZE).fill(0))
+const glyphs = ['', 'T', 'M']
+
+function getCell(table, x, y) {
+    return document.getElementById(table).rows[x + 1].cells[y + 1]
+}
+
+function getLevelText() {
+    const projections = kind => Array.from(document.querySelectorAll('input.' + kind), input => input.value || '0')
+
+    return [projections('row').join(' '), projections('column').join(' '), '', ...tiles.map(row => row.join(' '))].join('\\n')
+}
+
+function showErrors(messages) {
+    document.getElementById('errors').replaceChildren(...messages.map(message => {
+        const item = document.createElement('li')
+
+        item.textContent = message
+        return item
+    }))
+}
+
+function showReplyErrors(reply) {
+    showErrors([reply.error, ...reply.diagnostics.map(
+        diagnostic => 'line ' + diagnostic.line + ', column ' + diagnostic.column + ': ' + diagnostic.message)])
+}
+
+async function post(path, body) {
+    const response = await fetch(path, { method: 'POST', body: JSON.stringify(body) })
+
+    return [response.ok, await response.json()]
+}
+
+function isInRoom(rooms, x, y) {
+    return rooms.some(room => x >= room.x && x < room.x + 3 && y >= room.y && y < room.y + 3)
+}
+
+async function solveLevel() {
+    document.getElementById('status').textContent = 'Solving...'
+    showErrors([])
+
+    const [is_ok, reply] = await post('/solve', { level: getLevelText(), engine: document.getElementById('engine').value })
+
+    if (!is_ok) {
+        document.getElementById('status').textContent = ''
+        showReplyErrors(reply)
+        return
+    }
+
+    document.getElementById('status').textContent = reply.status + ' in ' + (reply.elapsed_ms / 1000).toFixed(2) +
+        's, ' + reply.nodes + ' nodes.'
+    showErrors(reply.reasons.map(reason => '[' + reason.rule + '] ' + reason.message))
+
+    const lines = reply.solution === null ? [] : reply.solution.split('\\n')
+
+    for (let x = 0; x < SIZE; x += 1) {
+        for (let y = 0; y < SIZE; y += 1) {
+            const cell = getCell('solution', x, y)
+            const glyph = lines[x]?.[y] ?? ''
+
+            cell.textContent = glyph === '#' || glyph === '-' ? '' : glyph
+            cell.className = glyph === '#' ? 'wall' : glyph === 'T' ? 'treasure' : glyph === 'M' ? 'monster' : ''
+
+            if (glyph !== '' && isInRoom(reply.treasure_rooms, x + 1, y + 1)) {
+                cell.classList.add('room')
+            }
+        }
+    }
+}
+
+async function findHint() {
+    showErrors([])
+
+    const [is_ok, reply] = await post('/hint', { level: getLevelText() })
+
+    for (const cell of document.querySelectorAll('#board td.tile')) {
+        cell.classList.remove('hint')
+    }
+
+    if (!is_ok) {
+        showReplyErrors(reply)
+        return
+    }
+
+    if (reply.hint === null) {
+        document.getElementById('status').textContent = reply.broken_rule !== null ?
+            'The level breaks the rule of ' + reply.broken_rule + '.' : reply.stopped !== null ?
+                'Looking for a hint stopped: ' + reply.stopped + '.' : 'No single rule forces the next move.'
+        return
+    }
+
+    document.getElementById('status').textContent = '[' + reply.hint.rule + '] ' + reply.hint.reason +
+        ' Mark them as ' + reply.hint.domain + '.'
+
+    for (const coord of reply.hint.coords) {
+        getCell('board', coord.x - 1, coord.y - 1).classList.add('hint')
+    }
+}
+
+for (let x = 0; x < SIZE; x += 1) {
+    for (let y = 0; y < SIZE; y += 1) {
+        const cell = getCell('board', x, y)
+
+        // Clicking cycles an empty space through a treasure and a monster.
+        cell.addEventListener('click', () => {
+            tiles[x][y] = (tiles[x][y] + 1) % glyphs.length
+            cell.textContent = glyphs[tiles[x][y]]
+            cell.className = 'tile' + (tiles[x][y] === 1 ? ' treasure' : tiles[x][y] === 2 ? ' monster' : '')
+        })
+    }
+}
+
+document.getElementById('solve').addEventListener('click', solveLevel)
+document.getElementById('hint').addEventListener('click', findHint)
+`
+
+function getPageTable(id: string, is_board: boolean): string {
+    const header_cells = Array.from({ length: PAGE_SIZE }, () =>
+        `<td class="projection">${is_board ? '<input class="column" type="number" min="0" max="8">' : ''}</td>`)
+    const rows = Array.from({ length: PAGE_SIZE }, () => `<tr><td class="projection">${
+        is_board ? '<input class="row" type="number" min="0" max="8">' : ''}</td>${
+        `<td${is_board ? ' class="tile"' : ''}></td>`.repeat(PAGE_SIZE)}</tr>`)
+
+    return `<table id="${id}"><tr><td class="projection"></td>${header_cells.join('')}</tr>${rows.join('')}</table>`
+}
+
+export function getSolverPage(default_engine: EngineName): string {
+    const engine_options = ENGINE_NAMES.map(engine =>
+        `<option${engine === default_engine ? ' selected' : ''}>${engine}</option>`).join('')
+
+    return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>Dungeons & Diagrams</title>
+<style>${PAGE_STYLE}</style>
+</head>
+<body>
+<p>Enter the projections of rows on the left and of columns on top, click a tile to place a treasure or a monster.</p>
+${getPageTable('board', true)}
+<p>
+<select id="engine">${engine_options}</select>
+<button id="solve">Solve</button>
+<button id="hint">Hint</button>
+</p>
+<p id="status"></p>
+<ul id="errors"></ul>
+${getPageTable('solution', false)}
+<script>const SIZE = ${PAGE_SIZE}
+${PAGE_SCRIPT}</script>
+</body>
+</html>
+`
+}
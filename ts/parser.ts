@@ -0,0 +1,347 @@
+import { Level, NumberOfTileTypeRange, NUMBER_OF_TILE_TYPES, Projection, RawDiagram, TileType, getTileType } from './types.js'
+
+export interface ParsingDiagnostic {
+    line: number
+    column: number
+    token: string
+    message: string
+}
+
+export interface ParsingResult<T> {
+    value: T | null
+    diagnostics: readonly ParsingDiagnostic[]
+}
+
+interface Token {
+    line: number
+    column: number
+    text: string
+}
+
+export function splitLines(text: string): readonly string[] {
+    return text.split(/\r?\n/)
+}
+
+export function formatParsingDiagnostic(diagnostic: ParsingDiagnostic): string {
+    return `line ${diagnostic.line}, column ${diagnostic.column}: ${diagnostic.message}`
+}
+
+function getDiagnostic(token: Token, message: string): ParsingDiagnostic {
+    return {
+        line: token.line,
+        column: token.column,
+        token: token.text,
+        message: message
+    }
+}
+
+function getEndDiagnostic(lines: readonly string[], line_number: number, message: string): ParsingDiagnostic {
+    return getDiagnostic({ line: line_number, column: (lines[line_number - 1]?.length ?? 0) + 1, text: '' }, message)
+}
+
+function sortDiagnostics(diagnostics: ParsingDiagnostic[]): ParsingDiagnostic[] {
+    return diagnostics.sort((a, b) => a.line - b.line || a.column - b.column)
+}
+
+function getTokens(line: string, line_number: number): Token[] {
+    const regexp = /\S+/g
+    const tokens: Token[] = []
+    let match: RegExpExecArray | null
+
+    while ((match = regexp.exec(line)) !== null) {
+        tokens.push({ line: line_number, column: match.index + 1, text: match[0] })
+    }
+
+    return tokens
+}
+
+function getCharTokens(line: string, line_number: number, start: number = 0): Token[] {
+    const tokens: Token[] = []
+
+    for (let i = start; i < line.length; i += 1) {
+        if (!/\s/.test(line[i])) {
+            tokens.push({ line: line_number, column: i + 1, text: line[i] })
+        }
+    }
+
+    return tokens
+}
+
+function getNumber(text: string): number {
+    return /^\d+$/.test(text) ? parseInt(text) : NaN
+}
+
+function getProjection(tokens: readonly Token[], name: string, max_value: number,
+    diagnostics: ParsingDiagnostic[]): number[] {
+    return tokens.map((token, i) => {
+        const value = getNumber(token.text)
+
+        // A missing projection is already reported with its row.
+        if (token.text !== '' && (isNaN(value) || value > max_value)) {
+            diagnostics.push(getDiagnostic(token, `Projection "${token.text}" of ${name} ${i + 1} should be a number from 0 to ${max_value}.`))
+            return 0
+        }
+
+        return value
+    })
+}
+
+function countTiles(tiles: readonly TileType[], tile_types: readonly TileType[]): number {
+    return tiles.filter(tile => tile_types.includes(tile)).length
+}
+
+function collectClueDiagnostics(projection: Projection, projection_tokens: readonly Token[], lines_of_tiles: readonly (readonly TileType[])[],
+    name: string, diagnostics: ParsingDiagnostic[]) {
+    for (let i = 0; i < projection.length; i += 1) {
+        const number_of_walls = countTiles(lines_of_tiles[i], [TileType.WALL])
+        const number_of_free_tiles = lines_of_tiles[i].length -
+            countTiles(lines_of_tiles[i], [TileType.TREASURE, TileType.MONSTER, TileType.FLOOR])
+
+        if (number_of_walls > projection[i]) {
+            diagnostics.push(getDiagnostic(projection_tokens[i], `${name} ${i + 1} has ${number_of_walls} walls placed, more than its projection ${projection[i]}.`))
+        } else if (projection[i] > number_of_free_tiles) {
+            diagnostics.push(getDiagnostic(projection_tokens[i], `${name} ${i + 1} needs ${projection[i]} walls, but only ${number_of_free_tiles} of its tiles are free of treasures, monsters and floors.`))
+        }
+    }
+}
+
+function collectLevelDiagnostics(level: Level,
+    row_projection_tokens: readonly Token[], column_projection_tokens: readonly Token[],
+    diagnostics: ParsingDiagnostic[]) {
+    const row_sum = level.row_projection.reduce((pre, cur) => pre + cur, 0)
+    const column_sum = level.column_projection.reduce((pre, cur) => pre + cur, 0)
+
+    // Both projections count the same walls.
+    if (row_sum !== column_sum) {
+        diagnostics.push(getDiagnostic(column_projection_tokens[0],
+            `Projections of columns sum to ${column_sum}, but projections of rows sum to ${row_sum}.`))
+    }
+
+    collectClueDiagnostics(level.row_projection, row_projection_tokens, level.raw_diagram,
+        'Row', diagnostics)
+    collectClueDiagnostics(level.column_projection, column_projection_tokens,
+        level.column_projection.map((_, y) => level.raw_diagram.map(row => row[y])),
+        'Column', diagnostics)
+}
+
+function getLevelParsingResult(lines: readonly string[], raw_diagram: RawDiagram,
+    row_projection_tokens: readonly Token[], column_projection_tokens: readonly Token[],
+    diagnostics: ParsingDiagnostic[]): ParsingResult<Level> {
+    if (row_projection_tokens.length === 0 || column_projection_tokens.length === 0) {
+        diagnostics.push(getEndDiagnostic(lines, Math.max(lines.length, 1), 'Level has no projections of rows or columns.'))
+    }
+
+    const level: Level = {
+        row_projection: getProjection(row_projection_tokens, 'row', column_projection_tokens.length, diagnostics),
+        column_projection: getProjection(column_projection_tokens, 'column', row_projection_tokens.length, diagnostics),
+        raw_diagram: raw_diagram
+    }
+
+    if (diagnostics.length === 0) {
+        collectLevelDiagnostics(level, row_projection_tokens, column_projection_tokens, diagnostics)
+    }
+
+    return { value: diagnostics.length === 0 ? level : null, diagnostics: sortDiagnostics(diagnostics) }
+}
+
+// A "-" followed by a digit is the sign of a negative number, which the numeric format reports.
+export function isCharGridLevel(lines: readonly string[]): boolean {
+    return lines.some(line => /[._TM#]|-(?!\d)/.test(line))
+}
+
+export function parseLevelLines(lines: readonly string[]): ParsingResult<Level> {
+    return isCharGridLevel(lines) ? parseCharGridLevelLines(lines) : parseNumericLevelLines(lines)
+}
+
+function getTileTypeFromToken(token: Token, diagnostics: ParsingDiagnostic[]): TileType {
+    const value = getNumber(token.text)
+
+    if (isNaN(value) || value >= NUMBER_OF_TILE_TYPES) {
+        diagnostics.push(getDiagnostic(token, `Tile "${token.text}" should be a number from 0 to ${NUMBER_OF_TILE_TYPES - 1}.`))
+        return TileType.EMPTY_SPACE
+    }
+
+    return getTileType(value as NumberOfTileTypeRange)
+}
+
+export function parseNumericLevelLines(lines: readonly string[]): ParsingResult<Level> {
+    const diagnostics: ParsingDiagnostic[] = []
+    const raw_diagram: TileType[][] = []
+    const row_projection_tokens: Token[] = []
+    const column_projection_tokens: Token[] = []
+    let number_of_lines = 0
+    let number_of_nonempty_lines = 0
+
+    for (const line of lines) {
+        number_of_lines += 1
+
+        const tokens = getTokens(line, number_of_lines)
+
+        if (tokens.length === 0) {
+            continue
+        }
+
+        number_of_nonempty_lines += 1
+
+        if (number_of_nonempty_lines === 1) {
+            row_projection_tokens.push(...tokens)
+            continue
+        }
+
+        if (number_of_nonempty_lines === 2) {
+            column_projection_tokens.push(...tokens)
+            continue
+        }
+
+        // The projections decide the size of the level,
+        // each line of the map should contain as many numbers as the projection of columns.
+        if (raw_diagram.length >= row_projection_tokens.length) {
+            diagnostics.push(getDiagnostic(tokens[0], `Level has more rows than the ${row_projection_tokens.length} projections of rows.`))
+            continue
+        }
+
+        if (tokens.length > column_projection_tokens.length) {
+            diagnostics.push(getDiagnostic(tokens[column_projection_tokens.length], `Row ${raw_diagram.length + 1} has ${tokens.length} tiles, more than the ${column_projection_tokens.length} projections of columns.`))
+        } else if (tokens.length < column_projection_tokens.length) {
+            diagnostics.push(getEndDiagnostic(lines, number_of_lines, `Row ${raw_diagram.length + 1} has ${tokens.length} tiles, less than the ${column_projection_tokens.length} projections of columns.`))
+        }
+
+        raw_diagram.push(tokens.slice(0, column_projection_tokens.length).map(
+            token => getTileTypeFromToken(token, diagnostics)))
+    }
+
+    if (number_of_nonempty_lines >= 2 && raw_diagram.length < row_projection_tokens.length) {
+        diagnostics.push(getEndDiagnostic(lines, number_of_lines, `Level has ${raw_diagram.length} rows, less than the ${row_projection_tokens.length} projections of rows.`))
+    }
+
+    return getLevelParsingResult(lines, raw_diagram, row_projection_tokens, column_projection_tokens, diagnostics)
+}
+
+export function parseCharGridLevelLines(lines: readonly string[]): ParsingResult<Level> {
+    const diagnostics: ParsingDiagnostic[] = []
+    const raw_diagram: TileType[][] = []
+    const row_projection_tokens: Token[] = []
+    const column_projection_tokens: Token[] = []
+    let number_of_lines = 0
+
+    for (const line of lines) {
+        number_of_lines += 1
+
+        if (line.trim() === '') {
+            continue
+        }
+
+        // The projection of columns goes along the top edge,
+        // single digits may be written without spaces, as the numbers are shown on screen.
+        if (column_projection_tokens.length === 0) {
+            column_projection_tokens.push(...(/\S\s+\S/.test(line) ?
+                getTokens(line, number_of_lines) : getCharTokens(line, number_of_lines)))
+            continue
+        }
+
+        // Each row starts with its projection along the left edge, followed by its tiles.
+        const match = /^(\s*)(\d*)/.exec(line)
+        const leading_spaces = match?.[1] ?? ''
+        const value_text = match?.[2] ?? ''
+        const tile_tokens = getCharTokens(line, number_of_lines, leading_spaces.length + value_text.length)
+
+        if (value_text === '') {
+            diagnostics.push(getDiagnostic(tile_tokens[0], `Row ${raw_diagram.length + 1} doesn't start with its projection.`))
+        }
+
+        if (tile_tokens.length > column_projection_tokens.length) {
+            diagnostics.push(getDiagnostic(tile_tokens[column_projection_tokens.length], `Row ${raw_diagram.length + 1} has ${tile_tokens.length} tiles, more than the ${column_projection_tokens.length} projections of columns.`))
+        } else if (tile_tokens.length < column_projection_tokens.length) {
+            diagnostics.push(getEndDiagnostic(lines, number_of_lines, `Row ${raw_diagram.length + 1} has ${tile_tokens.length} tiles, less than the ${column_projection_tokens.length} projections of columns.`))
+        }
+
+        row_projection_tokens.push({ line: number_of_lines, column: leading_spaces.length + 1, text: value_text })
+        raw_diagram.push(tile_tokens.slice(0, column_projection_tokens.length).map(token => {
+            // In a level "." and "-" are tiles not known yet, while "_" is a floor known already.
+            const tile = token.text === '.' ? TileType.EMPTY_SPACE :
+                token.text === '_' ? TileType.FLOOR : getTileTypeFromAscii(token.text)
+
+            if (tile === null) {
+                diagnostics.push(getDiagnostic(token, `Tile "${token.text}" should be one of ".", "-", "_", "T", "M" and "#".`))
+                return TileType.EMPTY_SPACE
+            }
+
+            return tile
+        }))
+    }
+
+    return getLevelParsingResult(lines, raw_diagram, row_projection_tokens, column_projection_tokens, diagnostics)
+}
+
+export function getTileTypeFromAscii(character: string): TileType | null {
+    switch (character) {
+        case '-':
+            return TileType.EMPTY_SPACE
+        case 'T':
+            return TileType.TREASURE
+        case 'M':
+            return TileType.MONSTER
+        case '#':
+            return TileType.WALL
+        default:
+            return null
+    }
+}
+
+export function parseAsciiGrid<T>(lines: readonly string[], height: number, width: number,
+    getValue: (character: string) => T | null): ParsingResult<T[][]> {
+    const diagnostics: ParsingDiagnostic[] = []
+    const grid: T[][] = []
+    let number_of_lines = 0
+
+    for (const line of lines) {
+        number_of_lines += 1
+
+        const tokens = getCharTokens(line, number_of_lines)
+
+        if (tokens.length === 0) {
+            continue
+        }
+
+        if (grid.length >= height) {
+            diagnostics.push(getDiagnostic(tokens[0], `Grid has more rows than the ${height} rows of the level.`))
+            continue
+        }
+
+        if (tokens.length > width) {
+            diagnostics.push(getDiagnostic(tokens[width], `Row ${grid.length + 1} has ${tokens.length} tiles, more than the ${width} columns of the level.`))
+        } else if (tokens.length < width) {
+            diagnostics.push(getEndDiagnostic(lines, number_of_lines, `Row ${grid.length + 1} has ${tokens.length} tiles, less than the ${width} columns of the level.`))
+        }
+
+        const row: T[] = []
+
+        for (const token of tokens.slice(0, width)) {
+            const value = getValue(token.text)
+
+            if (value === null) {
+                diagnostics.push(getDiagnostic(token, `Tile "${token.text}" is illegal.`))
+                continue
+            }
+
+            row.push(value)
+        }
+
+        grid.push(row)
+    }
+
+    if (grid.length < height) {
+        diagnostics.push(getEndDiagnostic(lines, number_of_lines, `Grid has ${grid.length} rows, less than the ${height} rows of the level.`))
+    }
+
+    return { value: diagnostics.length === 0 ? grid : null, diagnostics: sortDiagnostics(diagnostics) }
+}
+
+export function getLevelText(row_projection: Projection, column_projection: Projection, raw_diagram: RawDiagram): string {
+    return [
+        row_projection.join(' '),
+        column_projection.join(' '),
+        '',
+        ...raw_diagram.map(row => row.join(' '))
+    ].join('\n')
+}
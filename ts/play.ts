@@ -0,0 +1,312 @@
+import { collectMarkContradictions } from './analysis.js'
+import { formatCoords, getDiagramHeight, getDiagramWidth } from './diagram.js'
+import { CellDomain, createDomains, Domains, PropagationContext } from './propagation.js'
+import {
+    collectHallwayViolations, collectRuleViolations, get4DirectionCoords, getTRoomLTCoords,
+    getTRoomOuterTileCoords, isTRoomLTCoordAvailable, isTRoomTilesAvailable
+} from './rules.js'
+import { createSearchState } from './search.js'
+import { Coordinate, Diagram, RuleViolation, TileType } from './types.js'
+
+export type ProjectionStatus = 'open' | 'satisfied' | 'broken'
+
+export interface PlayMove {
+    coord: Coordinate
+    from_domain: CellDomain
+    to_domain: CellDomain
+}
+
+export interface PlayState {
+    context: PropagationContext
+    domains: Domains
+    cursor: Coordinate
+    undo_moves: PlayMove[]
+    redo_moves: PlayMove[]
+    is_showing_violations: boolean
+}
+
+const ANSI_RESET = '\x1b[0m'
+const ANSI_RED = '\x1b[31m'
+const ANSI_GREEN = '\x1b[32m'
+const ANSI_RED_BACKGROUND = '\x1b[41m'
+const ANSI_INVERSE = '\x1b[7m'
+const PLAY_SEARCH_TIMEOUT = 1000
+
+export const PLAY_KEYS_HELP = 'Arrows or hjkl move, w toggles a wall, f a floor, space cycles, ' +
+    'u undoes, r redoes, v shows the broken rules, q quits.'
+
+export function createPlayState(context: PropagationContext): PlayState {
+    return {
+        context: context,
+        domains: createDomains(context.diagram),
+        cursor: { x: 1, y: 1 },
+        undo_moves: [],
+        redo_moves: [],
+        is_showing_violations: false
+    }
+}
+
+export function isClueTile(state: PlayState, x: number, y: number): boolean {
+    return state.context.diagram[x][y] !== TileType.EMPTY_SPACE
+}
+
+export function moveCursor(state: PlayState, dx: number, dy: number) {
+    const height = getDiagramHeight(state.context.diagram)
+    const width = getDiagramWidth(state.context.diagram)
+
+    state.cursor = {
+        x: Math.min(Math.max(state.cursor.x + dx, 1), height - 2),
+        y: Math.min(Math.max(state.cursor.y + dy, 1), width - 2)
+    }
+}
+
+// The tiles of the level can't be marked, so that the marks never contradict the clues.
+export function markTile(state: PlayState, domain: CellDomain): boolean {
+    const coord = state.cursor
+    const from_domain = state.domains[coord.x][coord.y]
+
+    if (isClueTile(state, coord.x, coord.y) || from_domain === domain) {
+        return false
+    }
+
+    state.domains[coord.x][coord.y] = domain
+    state.undo_moves.push({ coord: coord, from_domain: from_domain, to_domain: domain })
+    state.redo_moves = []
+
+    return true
+}
+
+export function toggleMark(state: PlayState, domain: CellDomain): boolean {
+    return markTile(state, state.domains[state.cursor.x][state.cursor.y] === domain ? CellDomain.UNKNOWN : domain)
+}
+
+export function cycleMark(state: PlayState): boolean {
+    switch (state.domains[state.cursor.x][state.cursor.y]) {
+        case CellDomain.UNKNOWN:
+            return markTile(state, CellDomain.WALL)
+        case CellDomain.WALL:
+            return markTile(state, CellDomain.FLOOR)
+        default:
+            return markTile(state, CellDomain.UNKNOWN)
+    }
+}
+
+export function undoMove(state: PlayState): boolean {
+    const move = state.undo_moves.pop()
+
+    if (move === undefined) {
+        return false
+    }
+
+    state.domains[move.coord.x][move.coord.y] = move.from_domain
+    state.cursor = move.coord
+    state.redo_moves.push(move)
+
+    return true
+}
+
+export function redoMove(state: PlayState): boolean {
+    const move = state.redo_moves.pop()
+
+    if (move === undefined) {
+        return false
+    }
+
+    state.domains[move.coord.x][move.coord.y] = move.to_domain
+    state.cursor = move.coord
+    state.undo_moves.push(move)
+
+    return true
+}
+
+// Unknown tiles become walls or empty spaces, to see what the marks force and what they still allow.
+function getMarkedDiagram(state: PlayState, unknown_tile: TileType): Diagram {
+    return state.context.diagram.map((row, x) => row.map((tile, y) => {
+        if (tile !== TileType.EMPTY_SPACE && tile !== TileType.FLOOR) {
+            return tile
+        }
+
+        switch (state.domains[x][y]) {
+            case CellDomain.WALL:
+                return TileType.WALL
+            case CellDomain.FLOOR:
+                return TileType.EMPTY_SPACE
+            default:
+                return unknown_tile
+        }
+    }))
+}
+
+function getProjectionStatus(number_of_walls: number, number_of_unknowns: number, projection: number): ProjectionStatus {
+    if (number_of_walls > projection || number_of_walls + number_of_unknowns < projection) {
+        return 'broken'
+    }
+
+    return number_of_walls === projection ? 'satisfied' : 'open'
+}
+
+export function getProjectionStatuses(state: PlayState): readonly [ProjectionStatus[], ProjectionStatus[]] {
+    const { row_projection, column_projection } = state.context
+    const domains = state.domains.slice(1, -1).map(row => row.slice(1, -1))
+
+    return [
+        row_projection.map((projection, row_i) => getProjectionStatus(
+            domains[row_i].filter(domain => domain === CellDomain.WALL).length,
+            domains[row_i].filter(domain => domain === CellDomain.UNKNOWN).length, projection)),
+        column_projection.map((projection, column_i) => getProjectionStatus(
+            domains.filter(row => row[column_i] === CellDomain.WALL).length,
+            domains.filter(row => row[column_i] === CellDomain.UNKNOWN).length, projection))
+    ]
+}
+
+function countWalls(x: number, y: number, diagram: Diagram): number {
+    return get4DirectionCoords(x, y).filter(coord => diagram[coord.x][coord.y] === TileType.WALL).length
+}
+
+function isTRoomPossible(lt_coord: Coordinate, wall_diagram: Diagram, floor_diagram: Diagram): boolean {
+    const outer_tile_coords = getTRoomOuterTileCoords(lt_coord.x, lt_coord.y)
+
+    return isTRoomLTCoordAvailable(lt_coord.x, lt_coord.y, floor_diagram) &&
+        isTRoomTilesAvailable(lt_coord.x, lt_coord.y, floor_diagram) &&
+        outer_tile_coords.filter(coord => wall_diagram[coord.x][coord.y] !== TileType.WALL).length <= 1 &&
+        outer_tile_coords.filter(coord => floor_diagram[coord.x][coord.y] === TileType.WALL).length <= 11
+}
+
+// Only the rules which the marks break for sure are reported, whatever the unknown tiles turn out to be.
+// Marks which break no rule so far are still searched for a solution which agrees with them.
+export function collectMarkViolations(state: PlayState): RuleViolation[] {
+    const wall_diagram = getMarkedDiagram(state, TileType.WALL)
+    const floor_diagram = getMarkedDiagram(state, TileType.EMPTY_SPACE)
+    const violations: RuleViolation[] = []
+    const possible_lt_coords: Coordinate[] = []
+
+    if (state.domains.every(row => row.every(domain => domain !== CellDomain.UNKNOWN))) {
+        const { diagram, row_projection, column_projection } = state.context
+
+        return collectRuleViolations(diagram, row_projection, column_projection, wall_diagram)
+    }
+
+    for (const treasure_coord of state.context.treasure_coords) {
+        const lt_coords = getTRoomLTCoords(treasure_coord.x, treasure_coord.y).filter(
+            lt_coord => isTRoomPossible(lt_coord, wall_diagram, floor_diagram))
+
+        if (lt_coords.length === 0) {
+            violations.push({
+                rule: 'treasures',
+                coords: [treasure_coord],
+                message: `Treasure at ${formatCoords([treasure_coord])} can't be inside a 3x3 treasure room with exactly one exit.`
+            })
+        }
+
+        possible_lt_coords.push(...lt_coords)
+    }
+
+    for (let x = 1; x < getDiagramHeight(wall_diagram) - 1; x += 1) {
+        for (let y = 1; y < getDiagramWidth(wall_diagram) - 1; y += 1) {
+            const tile = wall_diagram[x][y]
+
+            if (tile === TileType.MONSTER &&
+                (countWalls(x, y, floor_diagram) > 3 || countWalls(x, y, wall_diagram) < 3)) {
+                violations.push({
+                    rule: 'monsters',
+                    coords: [{ x: x, y: y }],
+                    message: `Monster at ${formatCoords([{ x: x, y: y }])} can't be in a dead end.`
+                })
+            } else if (tile === TileType.EMPTY_SPACE &&
+                countWalls(x, y, floor_diagram) === 3 && countWalls(x, y, wall_diagram) === 3) {
+                violations.push({
+                    rule: 'monsters',
+                    coords: [{ x: x, y: y }],
+                    message: `Dead end at ${formatCoords([{ x: x, y: y }])} has no monster.`
+                })
+            }
+        }
+    }
+
+    violations.push(...collectHallwayViolations(possible_lt_coords, wall_diagram))
+
+    return violations.length > 0 ? violations :
+        collectMarkContradictions(state.context, state.domains, createSearchState({ timeout: PLAY_SEARCH_TIMEOUT }))
+}
+
+export function isPlaySolved(state: PlayState): boolean {
+    const { diagram, row_projection, column_projection } = state.context
+
+    return state.domains.every(row => row.every(domain => domain !== CellDomain.UNKNOWN)) &&
+        collectRuleViolations(diagram, row_projection, column_projection, getMarkedDiagram(state, TileType.WALL)).length === 0
+}
+
+function getTileGlyph(state: PlayState, x: number, y: number): string {
+    switch (state.context.diagram[x][y]) {
+        case TileType.TREASURE:
+            return 'T'
+        case TileType.MONSTER:
+            return 'M'
+        case TileType.WALL:
+            return '#'
+        default:
+            break
+    }
+
+    switch (state.domains[x][y]) {
+        case CellDomain.WALL:
+            return '#'
+        case CellDomain.FLOOR:
+            return '-'
+        default:
+            return '.'
+    }
+}
+
+function getColoredProjection(projection: number, status: ProjectionStatus): string {
+    switch (status) {
+        case 'satisfied':
+            return `${ANSI_GREEN}${projection}${ANSI_RESET}`
+        case 'broken':
+            return `${ANSI_RED}${projection}${ANSI_RESET}`
+        default:
+            return `${projection}`
+    }
+}
+
+// The board is drawn like the character grids of levels, with the projections of columns on top.
+export function getPlayScreen(state: PlayState, message: string = ''): string {
+    const { row_projection, column_projection } = state.context
+    const [row_statuses, column_statuses] = getProjectionStatuses(state)
+    const violations = state.is_showing_violations ? collectMarkViolations(state) : []
+    const violated_coords = violations.flatMap(violation => violation.coords)
+    const lines = [
+        `  ${column_projection.map((projection, column_i) => getColoredProjection(projection, column_statuses[column_i])).join(' ')}`
+    ]
+
+    for (let x = 1; x <= row_projection.length; x += 1) {
+        const glyphs: string[] = []
+
+        for (let y = 1; y <= column_projection.length; y += 1) {
+            const glyph = getTileGlyph(state, x, y)
+
+            if (x === state.cursor.x && y === state.cursor.y) {
+                glyphs.push(`${ANSI_INVERSE}${glyph}${ANSI_RESET}`)
+            } else if (violated_coords.some(coord => coord.x === x && coord.y === y)) {
+                glyphs.push(`${ANSI_RED_BACKGROUND}${glyph}${ANSI_RESET}`)
+            } else {
+                glyphs.push(glyph)
+            }
+        }
+
+        lines.push(`${getColoredProjection(row_projection[x - 1], row_statuses[x - 1])} ${glyphs.join(' ')}`)
+    }
+
+    lines.push('', PLAY_KEYS_HELP)
+
+    if (state.is_showing_violations) {
+        lines.push(...(violations.length > 0 ?
+            violations.map(violation => `[${violation.rule}] ${violation.message}`) : ['No rule is broken so far.']))
+    }
+
+    if (message !== '') {
+        lines.push(message)
+    }
+
+    return lines.join('\n')
+}
@@ -0,0 +1,546 @@
+import { getBitboard, isBitboardProjectionsSatisfied, isBitboardWidth } from './bitboard.js'
+import {
+    augmentRawDiagram, formatCoords, getDiagramHeight, getDiagramWidth, getProjectionsOfDiagram, getTreasureAndMonsterCoords
+} from './diagram.js'
+import {
+    get4DirectionCoords, get4TilesSpaces, getHashId,
+    getTRoomLTCoords, getTRoomOuterTileCoords, getTRoomTileCoords, isContainedByTRoom, isSatisfiedProjections, isSolved,
+    isTRoomLTCoordAvailable
+} from './rules.js'
+import { createSearchState, runCheck, searchBranch, SearchState, visitSearchNode } from './search.js'
+import { Coordinate, Diagram, Level, Projection, TileType } from './types.js'
+
+export enum CellDomain {
+    UNKNOWN = 0,
+    WALL = 1,
+    FLOOR = 2
+}
+
+export type DomainsRow = CellDomain[]
+export type Domains = DomainsRow[]
+
+export interface Deduction {
+    coord: Coordinate
+    domain: CellDomain
+    reason: string
+}
+
+export interface PropagationContext {
+    diagram: Diagram
+    row_projection: Projection
+    column_projection: Projection
+    treasure_coords: readonly Coordinate[]
+    monster_coords: readonly Coordinate[]
+}
+
+export interface PropagationRule {
+    name: string
+    propagate: (context: PropagationContext, domains: Domains) => Deduction[] | null
+}
+
+export function createPropagationContext(level: Level): PropagationContext {
+    const diagram = augmentRawDiagram(level.raw_diagram)
+    const [treasure_coords, monster_coords] = getTreasureAndMonsterCoords(diagram)
+
+    return {
+        diagram: diagram,
+        row_projection: level.row_projection,
+        column_projection: level.column_projection,
+        treasure_coords: treasure_coords,
+        monster_coords: monster_coords
+    }
+}
+
+export function createDomains(diagram: Diagram): Domains {
+    return diagram.map(row => row.map(tile => {
+        switch (tile) {
+            case TileType.WALL:
+                return CellDomain.WALL
+            case TileType.TREASURE:
+            case TileType.MONSTER:
+            case TileType.FLOOR:
+                return CellDomain.FLOOR
+            default:
+                return CellDomain.UNKNOWN
+        }
+    }))
+}
+
+export function copyDomains(domains: Domains): Domains {
+    return domains.map(row => Array.from(row))
+}
+
+export function getDiagramFromDomains(diagram: Diagram, domains: Domains): Diagram {
+    return diagram.map((row, x) => row.map((tile, y) => {
+        if (tile === TileType.TREASURE || tile === TileType.MONSTER) {
+            return tile
+        }
+
+        return domains[x][y] === CellDomain.WALL ? TileType.WALL : TileType.EMPTY_SPACE
+    }))
+}
+
+export function isHallwayCell(x: number, y: number, context: PropagationContext): boolean {
+    return context.diagram[x][y] !== TileType.TREASURE &&
+        context.diagram[x][y] !== TileType.MONSTER
+}
+
+export function getDeductions(coords: readonly Coordinate[], domain: CellDomain, reason: string): Deduction[] {
+    return coords.map(coord => ({ coord: coord, domain: domain, reason: reason }))
+}
+
+export function propagateProjections(context: PropagationContext, domains: Domains): Deduction[] | null {
+    const deductions: Deduction[] = []
+
+    function propagateLine(line_name: string, coords: readonly Coordinate[], projection: number): boolean {
+        const unknown_coords = coords.filter(coord => domains[coord.x][coord.y] === CellDomain.UNKNOWN)
+        const number_of_walls = coords.filter(coord => domains[coord.x][coord.y] === CellDomain.WALL).length
+
+        if (number_of_walls > projection ||
+            number_of_walls + unknown_coords.length < projection) {
+            return false
+        }
+
+        if (unknown_coords.length > 0 && number_of_walls === projection) {
+            deductions.push(...getDeductions(unknown_coords, CellDomain.FLOOR, projection === 0 ?
+                `${line_name} has no walls, so it's all floor.` :
+                `${line_name} already has all ${projection} walls, so the rest is floor.`))
+        } else if (unknown_coords.length > 0 && number_of_walls + unknown_coords.length === projection) {
+            deductions.push(...getDeductions(unknown_coords, CellDomain.WALL,
+                `${line_name} needs ${projection - number_of_walls} more walls and has only ${unknown_coords.length} undecided tiles, so they are all walls.`))
+        }
+
+        return true
+    }
+
+    for (let row_i = 0; row_i < context.row_projection.length; row_i += 1) {
+        const coords = context.column_projection.map((_, column_i) => ({ x: row_i + 1, y: column_i + 1 }))
+
+        if (!propagateLine(`Row ${row_i + 1}`, coords, context.row_projection[row_i])) {
+            return null
+        }
+    }
+
+    for (let column_i = 0; column_i < context.column_projection.length; column_i += 1) {
+        const coords = context.row_projection.map((_, row_i) => ({ x: row_i + 1, y: column_i + 1 }))
+
+        if (!propagateLine(`Column ${column_i + 1}`, coords, context.column_projection[column_i])) {
+            return null
+        }
+    }
+
+    return deductions
+}
+
+export function propagateDeadEnds(context: PropagationContext, domains: Domains): Deduction[] | null {
+    const deductions: Deduction[] = []
+    let number_of_floors = 0
+
+    for (const row of domains) {
+        for (const domain of row) {
+            if (domain === CellDomain.FLOOR) {
+                number_of_floors += 1
+            }
+        }
+    }
+
+    for (let x = 1; x < getDiagramHeight(context.diagram) - 1; x += 1) {
+        for (let y = 1; y < getDiagramWidth(context.diagram) - 1; y += 1) {
+            const domain = domains[x][y]
+
+            if (domain === CellDomain.WALL || context.diagram[x][y] === TileType.TREASURE) {
+                continue
+            }
+
+            const neighbour_coords = get4DirectionCoords(x, y)
+            const unknown_coords = neighbour_coords.filter(coord => domains[coord.x][coord.y] === CellDomain.UNKNOWN)
+            const number_of_walls = neighbour_coords.filter(coord => domains[coord.x][coord.y] === CellDomain.WALL).length
+
+            if (context.diagram[x][y] === TileType.MONSTER) {
+                // A monster stays in a dead end, which has exactly 3 walls around it.
+                if (number_of_walls > 3 || number_of_walls + unknown_coords.length < 3) {
+                    return null
+                }
+
+                if (unknown_coords.length > 0 && number_of_walls === 3) {
+                    deductions.push(...getDeductions(unknown_coords, CellDomain.FLOOR,
+                        `The monster at ${formatCoords([{ x: x, y: y }])} already has 3 walls around it, so its last neighbour is its only open neighbour.`))
+                } else if (unknown_coords.length > 0 && number_of_walls + unknown_coords.length === 3) {
+                    deductions.push(...getDeductions(unknown_coords, CellDomain.WALL,
+                        `The monster at ${formatCoords([{ x: x, y: y }])} already has its only open neighbour, so the others are walls.`))
+                }
+
+                continue
+            }
+
+            // Any other empty space can't be a dead end, and a floor surrounded by 4 walls
+            // is cut off from the other floors.
+            const has_other_floors = number_of_floors > (domain === CellDomain.FLOOR ? 1 : 0)
+
+            if (!has_other_floors || number_of_walls < 2) {
+                continue
+            }
+
+            if (domain === CellDomain.UNKNOWN) {
+                if (number_of_walls >= 3) {
+                    deductions.push(...getDeductions([{ x: x, y: y }], CellDomain.WALL,
+                        `The tile at ${formatCoords([{ x: x, y: y }])} has ${number_of_walls} walls around it, an empty space there would be a dead end without a monster, so it's a wall.`))
+                }
+            } else if (number_of_walls >= 3) {
+                return null
+            } else if (unknown_coords.length > 0) {
+                deductions.push(...getDeductions(unknown_coords, CellDomain.FLOOR,
+                    `The empty space at ${formatCoords([{ x: x, y: y }])} already has 2 walls around it, another wall would make it a dead end without a monster.`))
+            }
+        }
+    }
+
+    return deductions
+}
+
+export function getTRoomCandidateLTCoords(treasure_coord: Coordinate,
+    context: PropagationContext, domains: Domains): Coordinate[] {
+    return getTRoomLTCoords(treasure_coord.x, treasure_coord.y).filter(lt_coord => {
+        if (!isTRoomLTCoordAvailable(lt_coord.x, lt_coord.y, context.diagram)) {
+            return false
+        }
+
+        for (const tile_coord of getTRoomTileCoords(lt_coord.x, lt_coord.y)) {
+            const tile = context.diagram[tile_coord.x][tile_coord.y]
+
+            if (domains[tile_coord.x][tile_coord.y] === CellDomain.WALL ||
+                tile === TileType.MONSTER ||
+                (tile === TileType.TREASURE &&
+                    !(tile_coord.x === treasure_coord.x && tile_coord.y === treasure_coord.y))) {
+                return false
+            }
+        }
+
+        let number_of_floors = 0
+        let number_of_walls = 0
+        const outer_tile_coords = getTRoomOuterTileCoords(lt_coord.x, lt_coord.y)
+
+        for (const outer_tile_coord of outer_tile_coords) {
+            switch (domains[outer_tile_coord.x][outer_tile_coord.y]) {
+                case CellDomain.FLOOR:
+                    number_of_floors += 1
+                    break
+                case CellDomain.WALL:
+                    number_of_walls += 1
+                    break
+                default:
+                    break
+            }
+        }
+
+        return number_of_floors <= 1 && number_of_walls < outer_tile_coords.length
+    })
+}
+
+export function formatTRoom(lt_coord: Coordinate): string {
+    return `${formatCoords([lt_coord])}-${formatCoords([{ x: lt_coord.x + 2, y: lt_coord.y + 2 }])}`
+}
+
+export function propagateTreasureRooms(context: PropagationContext, domains: Domains): Deduction[] | null {
+    const deductions: Deduction[] = []
+
+    for (const treasure_coord of context.treasure_coords) {
+        const lt_coords = getTRoomCandidateLTCoords(treasure_coord, context, domains)
+
+        if (lt_coords.length === 0) {
+            return null
+        }
+
+        // Tiles shared by all possible rooms are surely inside the room.
+        const common_tile_coords = getTRoomTileCoords(lt_coords[0].x, lt_coords[0].y).filter(
+            tile_coord => domains[tile_coord.x][tile_coord.y] === CellDomain.UNKNOWN &&
+                lt_coords.every(lt_coord => isContainedByTRoom(tile_coord.x, tile_coord.y, [lt_coord])))
+
+        if (common_tile_coords.length > 0) {
+            deductions.push(...getDeductions(common_tile_coords, CellDomain.FLOOR,
+                lt_coords.length === 1 ?
+                    `The treasure at ${formatCoords([treasure_coord])} only fits in the treasure room ${formatTRoom(lt_coords[0])}, so its tiles are floor.` :
+                    `Every possible treasure room of the treasure at ${formatCoords([treasure_coord])} contains these tiles, so they are floor.`))
+        }
+
+        if (lt_coords.length !== 1) {
+            continue
+        }
+
+        const outer_tile_coords = getTRoomOuterTileCoords(lt_coords[0].x, lt_coords[0].y)
+        const unknown_coords = outer_tile_coords.filter(coord => domains[coord.x][coord.y] === CellDomain.UNKNOWN)
+        const exit_coord = outer_tile_coords.find(coord => domains[coord.x][coord.y] === CellDomain.FLOOR)
+
+        if (exit_coord !== undefined && unknown_coords.length > 0) {
+            deductions.push(...getDeductions(unknown_coords, CellDomain.WALL,
+                `The treasure room ${formatTRoom(lt_coords[0])} already has its only exit at ${formatCoords([exit_coord])}, so the rest of its border is wall.`))
+        } else if (exit_coord === undefined && unknown_coords.length === 1) {
+            deductions.push(...getDeductions(unknown_coords, CellDomain.FLOOR,
+                `The treasure room ${formatTRoom(lt_coords[0])} has only one possible exit left, so it's floor.`))
+        }
+    }
+
+    return deductions
+}
+
+export function propagateHallways(context: PropagationContext, domains: Domains): Deduction[] | null {
+    const deductions: Deduction[] = []
+    const possible_treasure_room_lt_coords = context.treasure_coords.flatMap(
+        treasure_coord => getTRoomCandidateLTCoords(treasure_coord, context, domains))
+
+    function isPossibleHallwayCell(coord: Coordinate): boolean {
+        return domains[coord.x][coord.y] !== CellDomain.WALL &&
+            isHallwayCell(coord.x, coord.y, context) &&
+            !isContainedByTRoom(coord.x, coord.y, possible_treasure_room_lt_coords)
+    }
+
+    for (let x = 1; x < getDiagramHeight(context.diagram) - 1; x += 1) {
+        for (let y = 1; y < getDiagramWidth(context.diagram) - 1; y += 1) {
+            if (!isPossibleHallwayCell({ x: x, y: y })) {
+                continue
+            }
+
+            for (const space of get4TilesSpaces(x, y)) {
+                const block_coords = [{ x: x, y: y }, ...space]
+
+                if (!block_coords.every(isPossibleHallwayCell)) {
+                    continue
+                }
+
+                const unknown_coords = block_coords.filter(coord => domains[coord.x][coord.y] === CellDomain.UNKNOWN)
+
+                if (unknown_coords.length === 0) {
+                    return null
+                }
+
+                if (unknown_coords.length === 1) {
+                    deductions.push(...getDeductions(unknown_coords, CellDomain.WALL,
+                        `Tiles ${formatCoords(block_coords)} would form a 2x2 hallway outside treasure rooms, so ${formatCoords(unknown_coords)} is a wall.`))
+                }
+            }
+        }
+    }
+
+    return deductions
+}
+
+export function propagateConnectivity(context: PropagationContext, domains: Domains): Deduction[] | null {
+    const height = getDiagramHeight(context.diagram)
+    const width = getDiagramWidth(context.diagram)
+    const discovery_orders = new Array<number>(height * width).fill(0)
+    const low_orders = new Array<number>(height * width).fill(0)
+    const deductions: Deduction[] = []
+    let root_coord: Coordinate | null = null
+    let number_of_floors = 0
+    let order = 0
+
+    for (let x = 1; x < height - 1; x += 1) {
+        for (let y = 1; y < width - 1; y += 1) {
+            if (domains[x][y] === CellDomain.FLOOR) {
+                number_of_floors += 1
+                root_coord = root_coord ?? { x: x, y: y }
+            }
+        }
+    }
+
+    if (root_coord === null) {
+        return deductions
+    }
+
+    // Tarjan's algorithm over the tiles which aren't walls, rooted at a floor,
+    // an unknown tile must be an empty space if removing it splits the floors apart.
+    function visit(x: number, y: number, parent_hash_id: number): number {
+        const hash_id = getHashId(x, y, width)
+        let number_of_subtree_floors = domains[x][y] === CellDomain.FLOOR ? 1 : 0
+        let is_articulation = false
+
+        order += 1
+        discovery_orders[hash_id] = order
+        low_orders[hash_id] = order
+
+        for (const coord of get4DirectionCoords(x, y)) {
+            if (domains[coord.x][coord.y] === CellDomain.WALL) {
+                continue
+            }
+
+            const neighbour_hash_id = getHashId(coord.x, coord.y, width)
+
+            if (discovery_orders[neighbour_hash_id] === 0) {
+                const number_of_child_floors = visit(coord.x, coord.y, hash_id)
+
+                low_orders[hash_id] = Math.min(low_orders[hash_id], low_orders[neighbour_hash_id])
+                number_of_subtree_floors += number_of_child_floors
+
+                if (number_of_child_floors > 0 &&
+                    low_orders[neighbour_hash_id] >= discovery_orders[hash_id]) {
+                    is_articulation = true
+                }
+            } else if (neighbour_hash_id !== parent_hash_id) {
+                low_orders[hash_id] = Math.min(low_orders[hash_id], discovery_orders[neighbour_hash_id])
+            }
+        }
+
+        if (is_articulation && domains[x][y] === CellDomain.UNKNOWN) {
+            deductions.push(...getDeductions([{ x: x, y: y }], CellDomain.FLOOR,
+                `All empty spaces are connected and the tile at ${formatCoords([{ x: x, y: y }])} is the only way between some of them, so it's floor.`))
+        }
+
+        return number_of_subtree_floors
+    }
+
+    if (visit(root_coord.x, root_coord.y, -1) !== number_of_floors) {
+        return null
+    }
+
+    // Tiles which can't reach any floor are walls.
+    for (let x = 1; x < height - 1; x += 1) {
+        for (let y = 1; y < width - 1; y += 1) {
+            if (domains[x][y] === CellDomain.UNKNOWN && discovery_orders[getHashId(x, y, width)] === 0) {
+                deductions.push(...getDeductions([{ x: x, y: y }], CellDomain.WALL,
+                    `The tile at ${formatCoords([{ x: x, y: y }])} can't reach the other empty spaces, so it's a wall.`))
+            }
+        }
+    }
+
+    return deductions
+}
+
+export const PROPAGATION_RULES: readonly PropagationRule[] = [
+    { name: 'projections', propagate: propagateProjections },
+    { name: 'monsters', propagate: propagateDeadEnds },
+    { name: 'treasures', propagate: propagateTreasureRooms },
+    { name: 'hallways', propagate: propagateHallways },
+    { name: 'connectivity', propagate: propagateConnectivity }
+]
+
+export function applyDeductions(deductions: readonly Deduction[], domains: Domains): boolean | null {
+    let is_changed = false
+
+    for (const deduction of deductions) {
+        const domain = domains[deduction.coord.x][deduction.coord.y]
+
+        if (domain === deduction.domain) {
+            continue
+        }
+
+        if (domain !== CellDomain.UNKNOWN) {
+            return null
+        }
+
+        domains[deduction.coord.x][deduction.coord.y] = deduction.domain
+        is_changed = true
+    }
+
+    return is_changed
+}
+
+export function propagate(context: PropagationContext, domains: Domains,
+    search_state: SearchState | null = null): boolean {
+    let rule_i = 0
+
+    while (rule_i < PROPAGATION_RULES.length) {
+        const rule = PROPAGATION_RULES[rule_i]
+        const deductions = runCheck(search_state, rule.propagate.name, () => rule.propagate(context, domains))
+
+        if (deductions === null) {
+            return false
+        }
+
+        const is_changed = applyDeductions(deductions, domains)
+
+        if (is_changed === null) {
+            return false
+        }
+
+        // Restart from the cheapest rule whenever something changes, until reaching the fixpoint.
+        rule_i = is_changed ? 0 : rule_i + 1
+    }
+
+    return true
+}
+
+export function getBranchCoord(context: PropagationContext, domains: Domains): Coordinate | null {
+    let branch_coord: Coordinate | null = null
+    let min_number_of_unknowns = Infinity
+
+    for (let x = 1; x < getDiagramHeight(context.diagram) - 1; x += 1) {
+        const unknown_ys: number[] = []
+
+        for (let y = 1; y < getDiagramWidth(context.diagram) - 1; y += 1) {
+            if (domains[x][y] === CellDomain.UNKNOWN) {
+                unknown_ys.push(y)
+            }
+        }
+
+        if (unknown_ys.length > 0 && unknown_ys.length < min_number_of_unknowns) {
+            min_number_of_unknowns = unknown_ys.length
+            branch_coord = { x: x, y: unknown_ys[0] }
+        }
+    }
+
+    return branch_coord
+}
+
+export function searchDomains(context: PropagationContext, domains: Domains,
+    on_solution: (diagram: Diagram) => boolean,
+    search_state: SearchState = createSearchState(), depth: number = 0): boolean {
+    search_state.stage = 'propagation'
+
+    if (!visitSearchNode(search_state, depth) || !propagate(context, domains, search_state)) {
+        return false
+    }
+
+    const branch_coord = getBranchCoord(context, domains)
+
+    if (branch_coord === null) {
+        const solved_diagram = getDiagramFromDomains(context.diagram, domains)
+        const width = getDiagramWidth(solved_diagram)
+        const [row_counts, column_counts] = getProjectionsOfDiagram(solved_diagram)
+
+        return (isBitboardWidth(width) ?
+            isBitboardProjectionsSatisfied(getBitboard(solved_diagram, [TileType.WALL]), width,
+                context.row_projection, context.column_projection) :
+            isSatisfiedProjections(row_counts, column_counts, context.row_projection, context.column_projection)) &&
+            isSolved(context.treasure_coords, context.monster_coords, solved_diagram, false, search_state) &&
+            on_solution(solved_diagram)
+    }
+
+    for (const domain of [CellDomain.WALL, CellDomain.FLOOR]) {
+        const branch_domains = copyDomains(domains)
+
+        branch_domains[branch_coord.x][branch_coord.y] = domain
+
+        if (searchBranch(search_state, 'propagation', domain === CellDomain.WALL ? 'wall' : 'floor', [branch_coord],
+            () => searchDomains(context, branch_domains, on_solution, search_state, depth + 1))) {
+            return true
+        }
+    }
+
+    return false
+}
+
+export function solveByPropagation(diagram: Diagram,
+    row_projection: Projection, column_projection: Projection,
+    treasure_coords: readonly Coordinate[], monster_coords: readonly Coordinate[],
+    on_solution: (diagram: Diagram) => boolean = () => true,
+    search_state: SearchState = createSearchState()): boolean {
+    const context: PropagationContext = {
+        diagram: diagram,
+        row_projection: row_projection,
+        column_projection: column_projection,
+        treasure_coords: treasure_coords,
+        monster_coords: monster_coords
+    }
+
+    return searchDomains(context, createDomains(diagram), solved_diagram => {
+        if (!on_solution(solved_diagram)) {
+            return false
+        }
+
+        for (let x = 0; x < getDiagramHeight(diagram); x += 1) {
+            diagram[x] = solved_diagram[x]
+        }
+
+        return true
+    }, search_state)
+}
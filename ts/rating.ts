@@ -0,0 +1,61 @@
+import { findHint, getBrokenRule } from './hint.js'
+import { CellDomain, PropagationContext, createDomains, getDiagramFromDomains, searchDomains } from './propagation.js'
+import { collectProjectionViolations, isSolved } from './rules.js'
+
+export const RATING_TIERS: readonly (readonly string[])[] = [
+    ['projections'],
+    ['monsters', 'treasures', 'hallways'],
+    ['connectivity'],
+    ['hypothesis']
+]
+export const RATING_TIER_NAMES: readonly string[] = ['projections', 'monsters and rooms', 'connectivity', 'hypothesis']
+
+export interface Rating {
+    is_solved: boolean
+    tier: number
+    steps_per_tier: readonly number[]
+    is_backtracking_needed: boolean
+}
+
+export function rateLevel(context: PropagationContext): Rating {
+    const domains = createDomains(context.diagram)
+    const steps_per_tier = new Array<number>(RATING_TIERS.length).fill(0)
+    let tier = 0
+
+    // Follow the hints one at a time, each of them comes from the weakest rule which can make progress.
+    while (getBrokenRule(context, domains) === null) {
+        const hint = findHint(context, domains)
+
+        if (hint === null) {
+            break
+        }
+
+        const tier_i = RATING_TIERS.findIndex(rule_names => rule_names.includes(hint.rule))
+
+        steps_per_tier[tier_i] += 1
+        tier = Math.max(tier, tier_i + 1)
+
+        for (const coord of hint.coords) {
+            domains[coord.x][coord.y] = hint.domain
+        }
+    }
+
+    if (domains.every(row => row.every(domain => domain !== CellDomain.UNKNOWN))) {
+        const solved_diagram = getDiagramFromDomains(context.diagram, domains)
+
+        return {
+            is_solved: collectProjectionViolations(context.row_projection, context.column_projection, solved_diagram).length === 0 &&
+                isSolved(context.treasure_coords, context.monster_coords, solved_diagram, false),
+            tier: tier,
+            steps_per_tier: steps_per_tier,
+            is_backtracking_needed: false
+        }
+    }
+
+    return {
+        is_solved: searchDomains(context, domains, () => true),
+        tier: RATING_TIERS.length,
+        steps_per_tier: steps_per_tier,
+        is_backtracking_needed: true
+    }
+}
@@ -0,0 +1,670 @@
+import { getDiagramHeight, getDiagramWidth, getTreasureAndMonsterCoords, formatCoords } from './diagram.js'
+import { runCheck, SearchState } from './search.js'
+import { ColorSet, Coordinate, Diagram, Projection, RuleViolation, TileType } from './types.js'
+
+export function isTilePlacable(row_i: number, column_i: number,
+    cur_row_projection: Projection, cur_column_projection: Projection,
+    row_projection: Projection, column_projection: Projection): boolean {
+
+    if (!(row_i in cur_row_projection && row_i in row_projection &&
+        column_i in cur_column_projection && column_i in column_projection)) {
+        return false
+    }
+
+    return cur_row_projection[row_i] + 1 <= row_projection[row_i] &&
+        cur_column_projection[column_i] + 1 <= column_projection[column_i]
+}
+
+export function getHashId(x: number, y: number, width: number): number {
+    return x * width + y
+}
+
+export function isSatisfiedProjections(cur_row_projection: Projection, cur_column_projection: Projection,
+    row_projection: Projection, column_projection: Projection): boolean {
+    if (!(cur_row_projection.length === row_projection.length &&
+        cur_column_projection.length === column_projection.length)) {
+        return false
+    }
+
+    for (let i = 0; i < cur_row_projection.length; i += 1) {
+        if (cur_row_projection[i] !== row_projection[i]) {
+            return false
+        }
+    }
+
+    for (let i = 0; i < cur_column_projection.length; i += 1) {
+        if (cur_column_projection[i] !== column_projection[i]) {
+            return false
+        }
+    }
+
+    return true
+}
+
+export function get4DirectionCoords(x: number, y: number): readonly Coordinate[] {
+    return [
+        { x: x, y: y - 1 }, { x: x + 1, y: y },
+        { x: x, y: y + 1 }, { x: x - 1, y: y }
+    ]
+}
+
+export function getTRoomLTCoords(x: number, y: number): readonly Coordinate[] {
+    return [
+        { x: x - 2, y: y - 2 }, { x: x - 1, y: y - 2 }, { x: x, y: y - 2 },
+        { x: x - 2, y: y - 1 }, { x: x - 1, y: y - 1 }, { x: x, y: y - 1 },
+        { x: x - 2, y: y }, { x: x - 1, y: y }, { x: x, y: y }
+    ]
+}
+
+export function getTRoomTileCoords(x: number, y: number): readonly Coordinate[] {
+    return [
+        { x: x, y: y }, { x: x + 1, y: y }, { x: x + 2, y: y },
+        { x: x, y: y + 1 }, { x: x + 1, y: y + 1 }, { x: x + 2, y: y + 1 },
+        { x: x, y: y + 2 }, { x: x + 1, y: y + 2 }, { x: x + 2, y: y + 2 }
+    ]
+}
+
+export function getTRoomOuterTileCoords(x: number, y: number): readonly Coordinate[] {
+    return [
+        { x: x, y: y - 1 }, { x: x + 1, y: y - 1 }, { x: x + 2, y: y - 1 },
+        { x: x + 3, y: y }, { x: x + 3, y: y + 1 }, { x: x + 3, y: y + 2 },
+        { x: x, y: y + 3 }, { x: x + 1, y: y + 3 }, { x: x + 2, y: y + 3 },
+        { x: x - 1, y: y }, { x: x - 1, y: y + 1 }, { x: x - 1, y: y + 2 }
+    ]
+}
+
+export function get4TilesSpaces(x: number, y: number): readonly Coordinate[][] {
+    return [
+        [{ x: x - 1, y: y - 1 }, { x: x, y: y - 1 }, { x: x - 1, y: y }],
+        [{ x: x, y: y - 1 }, { x: x + 1, y: y - 1 }, { x: x + 1, y: y }],
+        [{ x: x + 1, y: y }, { x: x + 1, y: y + 1 }, { x: x, y: y + 1 }],
+        [{ x: x, y: y + 1 }, { x: x - 1, y: y + 1 }, { x: x - 1, y: y }]
+    ]
+}
+
+export function isContainedByTRoom(x: number, y: number,
+    treasure_room_lt_coords: readonly Coordinate[]): boolean {
+    for (const lt_coord of treasure_room_lt_coords) {
+        if (x >= lt_coord.x && x < lt_coord.x + 3 &&
+            y >= lt_coord.y && y < lt_coord.y + 3) {
+            return true
+        }
+    }
+
+    return false
+}
+
+// A known floor is an empty space which can't be walled, so the rules treat it as one.
+function isEmptyTile(tile: TileType): boolean {
+    return tile === TileType.EMPTY_SPACE || tile === TileType.FLOOR
+}
+
+export function isTRoomLTCoordAvailable(x: number, y: number, diagram: Diagram): boolean {
+    return x >= 1 && x < getDiagramHeight(diagram) - 3 &&
+        y >= 1 && y < getDiagramWidth(diagram) - 3
+}
+
+export function isTRoomTilesAvailable(x: number, y: number, diagram: Diagram): boolean {
+    let number_of_empty_spaces = 0
+    let number_of_treasuers = 0
+
+    for (const tile_coord of getTRoomTileCoords(x, y)) {
+        switch (diagram[tile_coord.x][tile_coord.y]) {
+            case TileType.EMPTY_SPACE:
+            case TileType.FLOOR:
+                number_of_empty_spaces += 1
+                break
+            case TileType.TREASURE:
+                number_of_treasuers += 1
+                break
+            default: break
+        }
+    }
+
+    return number_of_empty_spaces === 8 && number_of_treasuers === 1
+}
+
+export function isTRoomWallsAvailable(x: number, y: number, diagram: Diagram): boolean {
+    let number_of_walls = 0
+
+    for (const outer_tile_coord of getTRoomOuterTileCoords(x, y)) {
+        if (diagram[outer_tile_coord.x][outer_tile_coord.y] === TileType.WALL) {
+            number_of_walls += 1
+        }
+    }
+
+    return number_of_walls === 11
+}
+
+export function isDeadEnds(x: number, y: number, diagram: Diagram): boolean {
+    let number_of_walls = 0
+
+    for (const outer_tile_coord of get4DirectionCoords(x, y)) {
+        if (diagram[outer_tile_coord.x][outer_tile_coord.y] === TileType.WALL) {
+            number_of_walls += 1
+        }
+    }
+
+    return number_of_walls === 3
+}
+
+export function checkEmptySpacesConnectivity(diagram: Diagram): boolean {
+    const width = getDiagramWidth(diagram)
+    const color_set: ColorSet = {}
+    let sign_count = 0
+
+    function bfs(x: number, y: number, sign: number) {
+        const queue: Coordinate[] = [{ x: x, y: y }]
+
+        while (queue.length > 0) {
+            const head = queue.shift()
+
+            if (head === undefined) {
+                break
+            }
+
+            const hash_id = getHashId(head.x, head.y, width)
+
+            if (hash_id in color_set) {
+                continue
+            }
+
+            color_set[hash_id] = sign
+
+            for (const coord of get4DirectionCoords(head.x, head.y)) {
+                if (diagram[coord.x][coord.y] !== TileType.WALL &&
+                    !(getHashId(coord.x, coord.y, width) in color_set)) {
+                    queue.push(coord)
+                }
+            }
+        }
+    }
+
+    for (let x = 1; x < getDiagramHeight(diagram) - 1; x += 1) {
+        for (let y = 1; y < getDiagramWidth(diagram) - 1; y += 1) {
+            const hash_id = getHashId(x, y, width)
+
+            if (diagram[x][y] !== TileType.WALL) {
+                if (hash_id in color_set) {
+                    if (sign_count <= 1) {
+                        continue
+                    }
+
+                    return false
+                }
+
+                if (sign_count !== 0) {
+                    return false
+                }
+
+                sign_count += 1
+                bfs(x, y, sign_count)
+            }
+        }
+    }
+
+    return true
+}
+
+export function checkTreasuresAndMonstersConnectivity(treasure_coords: readonly Coordinate[],
+    monster_coords: readonly Coordinate[],
+    diagram: Diagram): boolean {
+    const width = getDiagramWidth(diagram)
+    const color_set: ColorSet = {}
+    let sign_count = 0
+
+    function bfs(x: number, y: number, sign: number) {
+        const queue: Coordinate[] = [{ x: x, y: y }]
+
+        while (queue.length > 0) {
+            const head = queue.shift()
+
+            if (head === undefined) {
+                break
+            }
+
+            const hash_id = getHashId(head.x, head.y, width)
+
+            if (hash_id in color_set) {
+                continue
+            }
+
+            color_set[hash_id] = sign
+
+            for (const coord of get4DirectionCoords(head.x, head.y)) {
+                if (diagram[coord.x][coord.y] !== TileType.WALL &&
+                    !(getHashId(coord.x, coord.y, width) in color_set)) {
+                    queue.push(coord)
+                }
+            }
+        }
+    }
+
+
+    for (const coord of [...treasure_coords, ...monster_coords]) {
+        const x = coord.x
+        const y = coord.y
+        const hash_id = getHashId(x, y, width)
+
+        if (diagram[x][y] !== TileType.WALL) {
+            if (hash_id in color_set) {
+                if (sign_count <= 1) {
+                    continue
+                }
+
+                return false
+            }
+
+            if (sign_count !== 0) {
+                return false
+            }
+
+            sign_count += 1
+            bfs(x, y, sign_count)
+        }
+    }
+
+    return true
+}
+
+export function checkMonsters(monster_coords: readonly Coordinate[], diagram: Diagram): boolean {
+    for (const monster_coord of monster_coords) {
+        const x = monster_coord.x
+        const y = monster_coord.y
+
+        if (diagram[x][y] === TileType.MONSTER &&
+            !isDeadEnds(x, y, diagram)) {
+            return false
+        }
+    }
+
+    return true
+}
+
+export function checkTreasureRooms(treasure_coords: readonly Coordinate[], diagram: Diagram):
+    [boolean, readonly Coordinate[]] {
+    const treasure_room_lt_coords: Coordinate[] = []
+
+    for (const treasure_coord of treasure_coords) {
+        const x = treasure_coord.x
+        const y = treasure_coord.y
+
+        if (diagram[x][y] === TileType.TREASURE) {
+            const lt_coords = getTRoomLTCoords(x, y)
+            let is_satisfied = false
+
+            for (const lt_coord of lt_coords) {
+                if (!isTRoomLTCoordAvailable(lt_coord.x, lt_coord.y, diagram)) {
+                    continue
+                }
+
+                if (!isTRoomTilesAvailable(lt_coord.x, lt_coord.y, diagram)) {
+                    continue
+                }
+
+                if (!isTRoomWallsAvailable(lt_coord.x, lt_coord.y, diagram)) {
+                    continue
+                }
+
+                is_satisfied = true
+                treasure_room_lt_coords.push(lt_coord)
+                break
+            }
+
+            if (!is_satisfied) {
+                return [false, []]
+            }
+        }
+    }
+
+    return [true, treasure_room_lt_coords]
+}
+
+export function checkMonstersAndDeadEnds(monster_coords: readonly Coordinate[], diagram: Diagram): boolean {
+    for (const monster_coord of monster_coords) {
+        const x = monster_coord.x;
+        const y = monster_coord.y;
+
+        if (!isDeadEnds(x, y, diagram)) {
+            return false;
+        }
+    }
+
+    for (let x = 1; x < getDiagramHeight(diagram) - 1; x += 1) {
+        for (let y = 1; y < getDiagramWidth(diagram) - 1; y += 1) {
+            if (isEmptyTile(diagram[x][y]) &&
+                isDeadEnds(x, y, diagram)) {
+                return false
+            }
+        }
+    }
+
+    return true
+}
+
+export function checkHallways(treasure_room_lt_coords: readonly Coordinate[], diagram: Diagram): boolean {
+    for (let x = 1; x < getDiagramHeight(diagram) - 1; x += 1) {
+        for (let y = 1; y < getDiagramWidth(diagram) - 1; y += 1) {
+            if (!(isEmptyTile(diagram[x][y]) &&
+                !isContainedByTRoom(x, y, treasure_room_lt_coords))) {
+                continue
+            }
+
+            if (get4TilesSpaces(x, y).map(
+                space => space.map(
+                    coord => isEmptyTile(diagram[coord.x][coord.y]) &&
+                        !isContainedByTRoom(coord.x, coord.y, treasure_room_lt_coords) ? 1 : 0 as number
+                ).reduce((pre, cur) => pre + cur, 0) >= 3 ? 1 : 0 as number
+            ).reduce((pre, cur) => pre + cur, 0) > 0) {
+                return false
+            }
+        }
+    }
+
+    return true
+}
+
+export function collectClueViolations(level_diagram: Diagram, diagram: Diagram): RuleViolation[] {
+    const violations: RuleViolation[] = []
+
+    for (let x = 1; x < getDiagramHeight(diagram) - 1; x += 1) {
+        for (let y = 1; y < getDiagramWidth(diagram) - 1; y += 1) {
+            const level_tile = level_diagram[x][y]
+            const tile = diagram[x][y]
+
+            if (level_tile === TileType.WALL && tile !== TileType.WALL) {
+                violations.push({
+                    rule: 'clues',
+                    coords: [{ x: x, y: y }],
+                    message: `Pre-placed wall at ${formatCoords([{ x: x, y: y }])} is missing.`
+                })
+            } else if (level_tile === TileType.FLOOR && tile === TileType.WALL) {
+                violations.push({
+                    rule: 'clues',
+                    coords: [{ x: x, y: y }],
+                    message: `Known floor at ${formatCoords([{ x: x, y: y }])} is a wall.`
+                })
+            } else if ((level_tile === TileType.TREASURE || level_tile === TileType.MONSTER ||
+                tile === TileType.TREASURE || tile === TileType.MONSTER) && level_tile !== tile) {
+                violations.push({
+                    rule: 'clues',
+                    coords: [{ x: x, y: y }],
+                    message: `Tile at ${formatCoords([{ x: x, y: y }])} doesn\'t match the treasure or monster of the level.`
+                })
+            }
+        }
+    }
+
+    return violations
+}
+
+export function collectProjectionViolations(row_projection: Projection, column_projection: Projection,
+    diagram: Diagram): RuleViolation[] {
+    const violations: RuleViolation[] = []
+
+    for (let row_i = 0; row_i < row_projection.length; row_i += 1) {
+        let number_of_walls = 0
+
+        for (let y = 1; y < getDiagramWidth(diagram) - 1; y += 1) {
+            if (diagram[row_i + 1][y] === TileType.WALL) {
+                number_of_walls += 1
+            }
+        }
+
+        if (number_of_walls !== row_projection[row_i]) {
+            violations.push({
+                rule: 'projections',
+                coords: [],
+                message: `Row ${row_i + 1} has ${number_of_walls} walls, expected ${row_projection[row_i]}.`
+            })
+        }
+    }
+
+    for (let column_i = 0; column_i < column_projection.length; column_i += 1) {
+        let number_of_walls = 0
+
+        for (let x = 1; x < getDiagramHeight(diagram) - 1; x += 1) {
+            if (diagram[x][column_i + 1] === TileType.WALL) {
+                number_of_walls += 1
+            }
+        }
+
+        if (number_of_walls !== column_projection[column_i]) {
+            violations.push({
+                rule: 'projections',
+                coords: [],
+                message: `Column ${column_i + 1} has ${number_of_walls} walls, expected ${column_projection[column_i]}.`
+            })
+        }
+    }
+
+    return violations
+}
+
+export function collectConnectivityViolations(diagram: Diagram): RuleViolation[] {
+    const width = getDiagramWidth(diagram)
+    const color_set: ColorSet = {}
+    const violations: RuleViolation[] = []
+    let first_coord: Coordinate | null = null
+
+    function bfs(x: number, y: number): Coordinate[] {
+        const queue: Coordinate[] = [{ x: x, y: y }]
+        const component: Coordinate[] = []
+
+        while (queue.length > 0) {
+            const head = queue.shift()
+
+            if (head === undefined) {
+                break
+            }
+
+            const hash_id = getHashId(head.x, head.y, width)
+
+            if (hash_id in color_set) {
+                continue
+            }
+
+            color_set[hash_id] = 1
+            component.push(head)
+
+            for (const coord of get4DirectionCoords(head.x, head.y)) {
+                if (diagram[coord.x][coord.y] !== TileType.WALL &&
+                    !(getHashId(coord.x, coord.y, width) in color_set)) {
+                    queue.push(coord)
+                }
+            }
+        }
+
+        return component
+    }
+
+    for (let x = 1; x < getDiagramHeight(diagram) - 1; x += 1) {
+        for (let y = 1; y < getDiagramWidth(diagram) - 1; y += 1) {
+            if (diagram[x][y] === TileType.WALL || getHashId(x, y, width) in color_set) {
+                continue
+            }
+
+            const component = bfs(x, y)
+
+            if (first_coord === null) {
+                first_coord = { x: x, y: y }
+                continue
+            }
+
+            violations.push({
+                rule: 'connectivity',
+                coords: component,
+                message: `Tiles ${formatCoords(component)} are disconnected from the tile at ${formatCoords([first_coord])}.`
+            })
+        }
+    }
+
+    return violations
+}
+
+export function collectTreasureRoomViolations(treasure_coords: readonly Coordinate[], diagram: Diagram):
+    [RuleViolation[], readonly Coordinate[]] {
+    const violations: RuleViolation[] = []
+    const treasure_room_lt_coords: Coordinate[] = []
+
+    for (const treasure_coord of treasure_coords) {
+        const x = treasure_coord.x
+        const y = treasure_coord.y
+
+        if (diagram[x][y] !== TileType.TREASURE) {
+            continue
+        }
+
+        const lt_coord = getTRoomLTCoords(x, y).find(
+            lt_coord => isTRoomLTCoordAvailable(lt_coord.x, lt_coord.y, diagram) &&
+                isTRoomTilesAvailable(lt_coord.x, lt_coord.y, diagram) &&
+                isTRoomWallsAvailable(lt_coord.x, lt_coord.y, diagram))
+
+        if (lt_coord === undefined) {
+            violations.push({
+                rule: 'treasures',
+                coords: [treasure_coord],
+                message: `Treasure at ${formatCoords([treasure_coord])} isn\'t inside a 3x3 treasure room with exactly one exit.`
+            })
+        } else {
+            treasure_room_lt_coords.push(lt_coord)
+        }
+    }
+
+    return [violations, treasure_room_lt_coords]
+}
+
+export function collectMonsterViolations(monster_coords: readonly Coordinate[], diagram: Diagram): RuleViolation[] {
+    const violations: RuleViolation[] = []
+
+    for (const monster_coord of monster_coords) {
+        if (!isDeadEnds(monster_coord.x, monster_coord.y, diagram)) {
+            violations.push({
+                rule: 'monsters',
+                coords: [monster_coord],
+                message: `Monster at ${formatCoords([monster_coord])} isn\'t in a dead end.`
+            })
+        }
+    }
+
+    for (let x = 1; x < getDiagramHeight(diagram) - 1; x += 1) {
+        for (let y = 1; y < getDiagramWidth(diagram) - 1; y += 1) {
+            if (isEmptyTile(diagram[x][y]) &&
+                isDeadEnds(x, y, diagram)) {
+                violations.push({
+                    rule: 'monsters',
+                    coords: [{ x: x, y: y }],
+                    message: `Dead end at ${formatCoords([{ x: x, y: y }])} has no monster.`
+                })
+            }
+        }
+    }
+
+    return violations
+}
+
+export function collectHallwayViolations(treasure_room_lt_coords: readonly Coordinate[], diagram: Diagram): RuleViolation[] {
+    const violations: RuleViolation[] = []
+
+    function isHallwayTile(x: number, y: number): boolean {
+        return isEmptyTile(diagram[x][y]) &&
+            !isContainedByTRoom(x, y, treasure_room_lt_coords)
+    }
+
+    for (let x = 1; x < getDiagramHeight(diagram) - 2; x += 1) {
+        for (let y = 1; y < getDiagramWidth(diagram) - 2; y += 1) {
+            const block_coords = [
+                { x: x, y: y }, { x: x, y: y + 1 },
+                { x: x + 1, y: y }, { x: x + 1, y: y + 1 }
+            ]
+
+            if (block_coords.every(coord => isHallwayTile(coord.x, coord.y))) {
+                violations.push({
+                    rule: 'hallways',
+                    coords: block_coords,
+                    message: `Tiles ${formatCoords(block_coords)} form a 2x2 hallway outside treasure rooms.`
+                })
+            }
+        }
+    }
+
+    return violations
+}
+
+export function collectRuleViolations(level_diagram: Diagram,
+    row_projection: Projection, column_projection: Projection,
+    diagram: Diagram): RuleViolation[] {
+    const [treasure_coords, monster_coords] = getTreasureAndMonsterCoords(level_diagram)
+    const [treasure_violations, treasure_room_lt_coords] =
+        collectTreasureRoomViolations(treasure_coords, diagram)
+
+    return [
+        ...collectClueViolations(level_diagram, diagram),
+        ...collectProjectionViolations(row_projection, column_projection, diagram),
+        ...collectConnectivityViolations(diagram),
+        ...treasure_violations,
+        ...collectMonsterViolations(monster_coords.filter(
+            coord => diagram[coord.x][coord.y] === TileType.MONSTER), diagram),
+        ...collectHallwayViolations(treasure_room_lt_coords, diagram)
+    ]
+}
+
+export interface RuleChecks {
+    connectivity: boolean
+    treasures: boolean
+    monsters: boolean
+    hallways: boolean
+    treasure_room_lt_coords: readonly Coordinate[]
+}
+
+// Unlike isSolved, every rule is checked even after one fails.
+export function getRuleChecks(treasure_coords: readonly Coordinate[], monster_coords: readonly Coordinate[],
+    diagram: Diagram): RuleChecks {
+    const [flag_treasures, treasure_room_lt_coords] = checkTreasureRooms(treasure_coords, diagram)
+
+    return {
+        connectivity: checkEmptySpacesConnectivity(diagram),
+        treasures: flag_treasures,
+        monsters: checkMonstersAndDeadEnds(monster_coords, diagram),
+        hallways: checkHallways(treasure_room_lt_coords, diagram),
+        treasure_room_lt_coords: treasure_room_lt_coords
+    }
+}
+
+export function isSolved(treasure_coords: readonly Coordinate[], monster_coords: readonly Coordinate[], diagram: Diagram,
+    is_logging: boolean = true, search_state: SearchState | null = null): boolean {
+    const flag_connectivity = runCheck(search_state, 'checkEmptySpacesConnectivity',
+        () => checkEmptySpacesConnectivity(diagram))
+    if (!flag_connectivity) {
+        return false
+    }
+
+    const [flag_treasures, treasure_room_lt_coords] = runCheck(search_state, 'checkTreasureRooms',
+        () => checkTreasureRooms(treasure_coords, diagram))
+    if (!flag_treasures) {
+        return false
+    }
+
+    const flag_monsters = runCheck(search_state, 'checkMonstersAndDeadEnds',
+        () => checkMonstersAndDeadEnds(monster_coords, diagram))
+    if (!flag_monsters) {
+        return false
+    }
+
+    const falg_hallways = runCheck(search_state, 'checkHallways',
+        () => checkHallways(treasure_room_lt_coords, diagram))
+    if (!falg_hallways) {
+        return false
+    }
+
+    if (!is_logging) {
+        return true
+    }
+
+    console.log(`@main> Check connectivity: ${flag_connectivity}.`)
+    console.log(`@main> Check treasures: ${flag_treasures}.`)
+    console.log(`@main> Check monsters: ${flag_monsters}.`)
+    console.log(`@main> Check hallways: ${falg_hallways}.`)
+
+    return true
+}
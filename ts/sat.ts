@@ -0,0 +1,501 @@
+import { Cnf, encodeLevel, getWallVariable } from './cnf.js'
+import { getDiagramHeight, getDiagramWidth, getRawDiagram } from './diagram.js'
+import { get4DirectionCoords, isSolved } from './rules.js'
+import { createSearchState, runCheck, SearchState, visitSearchNode } from './search.js'
+import { Coordinate, Diagram, Projection, TileType } from './types.js'
+
+export type SatResult = 'satisfiable' | 'unsatisfiable' | 'stopped'
+
+export interface SatSolver {
+    number_of_variables: number
+    number_of_decision_variables: number
+    clauses: number[][]
+    // Indexed by getLiteralIndex of a literal, the clauses which watch its negation.
+    watches: number[][]
+    // 1 for true, -1 for false and 0 for unassigned, indexed by variable.
+    assignments: Int8Array
+    levels: Int32Array
+    reasons: Int32Array
+    phases: Int8Array
+    activities: Float64Array
+    activity_increment: number
+    trail: number[]
+    trail_limits: number[]
+    propagation_head: number
+    seen: Uint8Array
+    is_unsatisfiable: boolean
+}
+
+const ACTIVITY_DECAY = 0.95
+const MAX_ACTIVITY = 1e100
+
+function getLiteralIndex(literal: number): number {
+    return literal > 0 ? literal * 2 : -literal * 2 + 1
+}
+
+function getLiteralValue(solver: SatSolver, literal: number): number {
+    const assignment = solver.assignments[Math.abs(literal)]
+
+    return literal > 0 ? assignment : -assignment
+}
+
+function getDecisionLevel(solver: SatSolver): number {
+    return solver.trail_limits.length
+}
+
+// Only the first variables are decided on, the others follow from them through propagation.
+export function createSatSolver(number_of_variables: number,
+    number_of_decision_variables: number = number_of_variables): SatSolver {
+    return {
+        number_of_variables: number_of_variables,
+        number_of_decision_variables: number_of_decision_variables,
+        clauses: [],
+        watches: Array.from({ length: number_of_variables * 2 + 2 }, () => []),
+        assignments: new Int8Array(number_of_variables + 1),
+        levels: new Int32Array(number_of_variables + 1),
+        reasons: new Int32Array(number_of_variables + 1).fill(-1),
+        phases: new Int8Array(number_of_variables + 1).fill(-1),
+        activities: new Float64Array(number_of_variables + 1),
+        activity_increment: 1,
+        trail: [],
+        trail_limits: [],
+        propagation_head: 0,
+        seen: new Uint8Array(number_of_variables + 1),
+        is_unsatisfiable: false
+    }
+}
+
+function assign(solver: SatSolver, literal: number, reason: number) {
+    const variable = Math.abs(literal)
+
+    solver.assignments[variable] = literal > 0 ? 1 : -1
+    solver.levels[variable] = getDecisionLevel(solver)
+    solver.reasons[variable] = reason
+    solver.trail.push(literal)
+}
+
+function attachClause(solver: SatSolver, clause: number[]): number {
+    const clause_i = solver.clauses.length
+
+    solver.clauses.push(clause)
+    solver.watches[getLiteralIndex(-clause[0])].push(clause_i)
+    solver.watches[getLiteralIndex(-clause[1])].push(clause_i)
+
+    return clause_i
+}
+
+export function backtrack(solver: SatSolver, level: number) {
+    if (getDecisionLevel(solver) <= level) {
+        return
+    }
+
+    const trail_limit = solver.trail_limits[level]
+
+    for (let trail_i = solver.trail.length - 1; trail_i >= trail_limit; trail_i -= 1) {
+        const variable = Math.abs(solver.trail[trail_i])
+
+        solver.phases[variable] = solver.assignments[variable]
+        solver.assignments[variable] = 0
+        solver.reasons[variable] = -1
+    }
+
+    solver.trail.length = trail_limit
+    solver.trail_limits.length = level
+    solver.propagation_head = trail_limit
+}
+
+// Returns the index of a conflicting clause, or -1 when every clause still holds.
+function propagate(solver: SatSolver): number {
+    while (solver.propagation_head < solver.trail.length) {
+        const false_literal = -solver.trail[solver.propagation_head]
+        const watch_list = solver.watches[getLiteralIndex(solver.trail[solver.propagation_head])]
+        let kept_i = 0
+
+        solver.propagation_head += 1
+
+        for (let watch_i = 0; watch_i < watch_list.length; watch_i += 1) {
+            const clause_i = watch_list[watch_i]
+            const clause = solver.clauses[clause_i]
+
+            // Keep the false literal at the second place, so the first one is the other watch.
+            if (clause[0] === false_literal) {
+                clause[0] = clause[1]
+                clause[1] = false_literal
+            }
+
+            if (getLiteralValue(solver, clause[0]) === 1) {
+                watch_list[kept_i] = clause_i
+                kept_i += 1
+                continue
+            }
+
+            let is_moved = false
+
+            for (let literal_i = 2; literal_i < clause.length; literal_i += 1) {
+                if (getLiteralValue(solver, clause[literal_i]) !== -1) {
+                    clause[1] = clause[literal_i]
+                    clause[literal_i] = false_literal
+                    solver.watches[getLiteralIndex(-clause[1])].push(clause_i)
+                    is_moved = true
+                    break
+                }
+            }
+
+            if (is_moved) {
+                continue
+            }
+
+            watch_list[kept_i] = clause_i
+            kept_i += 1
+
+            if (getLiteralValue(solver, clause[0]) === -1) {
+                for (watch_i += 1; watch_i < watch_list.length; watch_i += 1) {
+                    watch_list[kept_i] = watch_list[watch_i]
+                    kept_i += 1
+                }
+
+                watch_list.length = kept_i
+                return clause_i
+            }
+
+            assign(solver, clause[0], clause_i)
+        }
+
+        watch_list.length = kept_i
+    }
+
+    return -1
+}
+
+function bumpActivity(solver: SatSolver, variable: number) {
+    solver.activities[variable] += solver.activity_increment
+
+    if (solver.activities[variable] > MAX_ACTIVITY) {
+        for (let i = 1; i <= solver.number_of_variables; i += 1) {
+            solver.activities[i] /= MAX_ACTIVITY
+        }
+
+        solver.activity_increment /= MAX_ACTIVITY
+    }
+}
+
+// Learns the clause of the first unique implication point, with the asserting literal first.
+function analyzeConflict(solver: SatSolver, conflict_i: number): number[] {
+    const learnt_clause: number[] = [0]
+    const decision_level = getDecisionLevel(solver)
+    let clause = solver.clauses[conflict_i]
+    let number_of_pending_literals = 0
+    let trail_i = solver.trail.length - 1
+    let literal = 0
+
+    do {
+        for (let literal_i = literal === 0 ? 0 : 1; literal_i < clause.length; literal_i += 1) {
+            const variable = Math.abs(clause[literal_i])
+
+            if (solver.seen[variable] === 1 || solver.levels[variable] === 0) {
+                continue
+            }
+
+            solver.seen[variable] = 1
+            bumpActivity(solver, variable)
+
+            if (solver.levels[variable] >= decision_level) {
+                number_of_pending_literals += 1
+            } else {
+                learnt_clause.push(clause[literal_i])
+            }
+        }
+
+        while (solver.seen[Math.abs(solver.trail[trail_i])] === 0) {
+            trail_i -= 1
+        }
+
+        literal = solver.trail[trail_i]
+        trail_i -= 1
+        solver.seen[Math.abs(literal)] = 0
+        number_of_pending_literals -= 1
+        clause = solver.clauses[solver.reasons[Math.abs(literal)]] ?? []
+    } while (number_of_pending_literals > 0)
+
+    learnt_clause[0] = -literal
+
+    for (const learnt_literal of learnt_clause) {
+        solver.seen[Math.abs(learnt_literal)] = 0
+    }
+
+    solver.activity_increment /= ACTIVITY_DECAY
+
+    return learnt_clause
+}
+
+function getBackjumpLevel(solver: SatSolver, learnt_clause: number[]): number {
+    let max_literal_i = 1
+
+    for (let literal_i = 2; literal_i < learnt_clause.length; literal_i += 1) {
+        if (solver.levels[Math.abs(learnt_clause[literal_i])] > solver.levels[Math.abs(learnt_clause[max_literal_i])]) {
+            max_literal_i = literal_i
+        }
+    }
+
+    // The literal of the backjump level becomes the second watch.
+    const literal = learnt_clause[max_literal_i]
+
+    learnt_clause[max_literal_i] = learnt_clause[1]
+    learnt_clause[1] = literal
+
+    return solver.levels[Math.abs(literal)]
+}
+
+function pickBranchVariable(solver: SatSolver): number {
+    let branch_variable = 0
+
+    for (let variable = 1; variable <= solver.number_of_decision_variables; variable += 1) {
+        if (solver.assignments[variable] === 0 &&
+            (branch_variable === 0 || solver.activities[variable] > solver.activities[branch_variable])) {
+            branch_variable = variable
+        }
+    }
+
+    if (branch_variable !== 0) {
+        return branch_variable
+    }
+
+    for (let variable = solver.number_of_decision_variables + 1; variable <= solver.number_of_variables; variable += 1) {
+        if (solver.assignments[variable] === 0) {
+            return variable
+        }
+    }
+
+    return 0
+}
+
+// Clauses are added at the level 0, so the solver backtracks there first.
+export function addSatClause(solver: SatSolver, literals: readonly number[]) {
+    backtrack(solver, 0)
+
+    if (solver.is_unsatisfiable) {
+        return
+    }
+
+    const clause: number[] = []
+
+    for (const literal of literals) {
+        const value = getLiteralValue(solver, literal)
+
+        if (value === 1 || clause.includes(-literal)) {
+            return
+        }
+
+        if (value === 0 && !clause.includes(literal)) {
+            clause.push(literal)
+        }
+    }
+
+    if (clause.length === 0) {
+        solver.is_unsatisfiable = true
+    } else if (clause.length === 1) {
+        assign(solver, clause[0], -1)
+        solver.is_unsatisfiable = propagate(solver) >= 0
+    } else {
+        attachClause(solver, clause)
+    }
+}
+
+// Decisions are counted as the nodes of the stage and conflicts as its backtracks.
+export function solveSat(solver: SatSolver, search_state: SearchState = createSearchState()): SatResult {
+    const statistics = search_state.statistics === null ? null :
+        search_state.statistics.stages.sat ?? (search_state.statistics.stages.sat = { nodes: 0, backtracks: 0 })
+
+    backtrack(solver, 0)
+
+    if (solver.is_unsatisfiable || propagate(solver) >= 0) {
+        solver.is_unsatisfiable = true
+        return 'unsatisfiable'
+    }
+
+    while (true) {
+        const conflict_i = propagate(solver)
+
+        if (conflict_i >= 0) {
+            if (getDecisionLevel(solver) === 0) {
+                solver.is_unsatisfiable = true
+                return 'unsatisfiable'
+            }
+
+            const learnt_clause = analyzeConflict(solver, conflict_i)
+
+            if (statistics !== null) {
+                statistics.backtracks += 1
+            }
+
+            if (learnt_clause.length === 1) {
+                backtrack(solver, 0)
+                assign(solver, learnt_clause[0], -1)
+            } else {
+                backtrack(solver, getBackjumpLevel(solver, learnt_clause))
+                assign(solver, learnt_clause[0], attachClause(solver, learnt_clause))
+            }
+
+            continue
+        }
+
+        const branch_variable = pickBranchVariable(solver)
+
+        if (branch_variable === 0) {
+            return 'satisfiable'
+        }
+
+        if (!visitSearchNode(search_state, getDecisionLevel(solver))) {
+            return 'stopped'
+        }
+
+        if (statistics !== null) {
+            statistics.nodes += 1
+        }
+
+        solver.trail_limits.push(solver.trail.length)
+        assign(solver, solver.phases[branch_variable] > 0 ? branch_variable : -branch_variable, -1)
+    }
+}
+
+function getSolvedDiagram(solver: SatSolver, diagram: Diagram): Diagram {
+    const solved_diagram = diagram.map(row => Array.from(row))
+
+    for (let x = 1; x < getDiagramHeight(diagram) - 1; x += 1) {
+        for (let y = 1; y < getDiagramWidth(diagram) - 1; y += 1) {
+            if (solved_diagram[x][y] !== TileType.TREASURE && solved_diagram[x][y] !== TileType.MONSTER) {
+                solved_diagram[x][y] = solver.assignments[getWallVariable(x, y, getDiagramWidth(diagram) - 2)] > 0 ?
+                    TileType.WALL : TileType.EMPTY_SPACE
+            }
+        }
+    }
+
+    return solved_diagram
+}
+
+// Each region of empty spaces walled off from the others needs one of its bordering walls to open,
+// or one of two of its empty spaces, in the region and out of it, to become a wall.
+function getConnectivityCuts(diagram: Diagram): number[][] {
+    const height = getDiagramHeight(diagram)
+    const width = getDiagramWidth(diagram)
+    const region_indexes = diagram.map(row => row.map(() => -1))
+    const regions: Coordinate[][] = []
+
+    for (let x = 1; x < height - 1; x += 1) {
+        for (let y = 1; y < width - 1; y += 1) {
+            if (diagram[x][y] === TileType.WALL || region_indexes[x][y] >= 0) {
+                continue
+            }
+
+            const region: Coordinate[] = [{ x: x, y: y }]
+
+            region_indexes[x][y] = regions.length
+
+            for (let i = 0; i < region.length; i += 1) {
+                for (const coord of get4DirectionCoords(region[i].x, region[i].y)) {
+                    if (diagram[coord.x][coord.y] !== TileType.WALL && region_indexes[coord.x][coord.y] < 0) {
+                        region_indexes[coord.x][coord.y] = regions.length
+                        region.push(coord)
+                    }
+                }
+            }
+
+            regions.push(region)
+        }
+    }
+
+    if (regions.length <= 1) {
+        return []
+    }
+
+    return regions.map((region, region_i) => {
+        const coord = region[0]
+        const other_coord = regions[(region_i + 1) % regions.length][0]
+        const cut = [getWallVariable(coord.x, coord.y, width - 2), getWallVariable(other_coord.x, other_coord.y, width - 2)]
+
+        for (const tile_coord of region) {
+            for (const around_coord of get4DirectionCoords(tile_coord.x, tile_coord.y)) {
+                const wall_literal = -getWallVariable(around_coord.x, around_coord.y, width - 2)
+
+                // The padding is a wall for good.
+                if (around_coord.x >= 1 && around_coord.x < height - 1 && around_coord.y >= 1 && around_coord.y < width - 1 &&
+                    diagram[around_coord.x][around_coord.y] === TileType.WALL && !cut.includes(wall_literal)) {
+                    cut.push(wall_literal)
+                }
+            }
+        }
+
+        return cut
+    })
+}
+
+// The cnf leaves connectivity out, the models which break it are cut off while solving.
+export function solveCnfBySat(cnf: Cnf, diagram: Diagram,
+    treasure_coords: readonly Coordinate[], monster_coords: readonly Coordinate[],
+    on_solution: (diagram: Diagram) => boolean = () => true,
+    search_state: SearchState = createSearchState()): boolean {
+    const width = getDiagramWidth(diagram) - 2
+    const solver = createSatSolver(cnf.number_of_variables, (getDiagramHeight(diagram) - 2) * width)
+
+    for (const clause of cnf.clauses) {
+        addSatClause(solver, clause)
+    }
+
+    search_state.stage = 'sat'
+
+    while (solveSat(solver, search_state) === 'satisfiable') {
+        const solved_diagram = getSolvedDiagram(solver, diagram)
+        const cuts = runCheck(search_state, 'getConnectivityCuts', () => getConnectivityCuts(solved_diagram))
+
+        // Connectivity is learned lazily, from the models which break it.
+        if (cuts.length > 0) {
+            for (const cut of cuts) {
+                addSatClause(solver, cut)
+            }
+
+            continue
+        }
+
+        if (isSolved(treasure_coords, monster_coords, solved_diagram, false, search_state) &&
+            on_solution(solved_diagram)) {
+            for (let x = 0; x < getDiagramHeight(diagram); x += 1) {
+                diagram[x] = solved_diagram[x]
+            }
+
+            return true
+        }
+
+        // Rule out this model to look for the next solution.
+        addSatClause(solver, getRawDiagram(solved_diagram).flatMap((row, row_i) => row.map((tile, column_i) => {
+            const wall_variable = getWallVariable(row_i + 1, column_i + 1, width)
+
+            return tile === TileType.WALL ? -wall_variable : wall_variable
+        })))
+    }
+
+    return false
+}
+
+export function solveBySat(diagram: Diagram,
+    row_projection: Projection, column_projection: Projection,
+    treasure_coords: readonly Coordinate[], monster_coords: readonly Coordinate[],
+    on_solution: (diagram: Diagram) => boolean = () => true,
+    search_state: SearchState = createSearchState()): boolean {
+    const cnf = encodeLevel({
+        row_projection: row_projection,
+        column_projection: column_projection,
+        raw_diagram: getRawDiagram(diagram)
+    }, false)
+
+    return solveCnfBySat(cnf, diagram, treasure_coords, monster_coords, on_solution, search_state)
+}
+
+export function isSatisfiableCnf(number_of_variables: number, clauses: readonly (readonly number[])[]): boolean {
+    const solver = createSatSolver(number_of_variables)
+
+    for (const clause of clauses) {
+        addSatClause(solver, clause)
+    }
+
+    return solveSat(solver) === 'satisfiable'
+}
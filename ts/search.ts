@@ -0,0 +1,249 @@
+import { Coordinate, Dictionary } from './types.js'
+
+export const BFS_CHECK_NAMES: readonly string[] = [
+    'checkEmptySpacesConnectivity', 'checkTreasuresAndMonstersConnectivity', 'propagateConnectivity',
+    'isTreasuresAndMonstersConnected', 'getConnectivityCuts'
+]
+
+export interface StageStatistics {
+    nodes: number
+    backtracks: number
+}
+
+export interface CheckStatistics {
+    calls: number
+    elapsed_ms: number
+}
+
+export interface SearchStatistics {
+    stages: Dictionary<string, StageStatistics>
+    checks: Dictionary<string, CheckStatistics>
+    bfs_elapsed_ms: number
+}
+
+export interface TraceEvent {
+    event: 'place' | 'undo'
+    stage: string
+    depth: number
+    tile: string
+    coords: readonly Coordinate[]
+}
+
+export interface BranchPartition {
+    index: number
+    count: number
+    depth: number
+}
+
+export interface SearchProgress {
+    number_of_nodes: number
+    depth: number
+    stage: string
+    elapsed_ms: number
+}
+
+export interface SearchOptions {
+    timeout?: number
+    max_number_of_nodes?: number
+    // Checked on every node, but the search runs synchronously, so only on_progress can abort it from the
+    // same thread. Cancelling from outside takes solveLevelsInWorkers or solveBranchesInWorkers.
+    signal?: AbortSignal
+    on_progress?: (progress: SearchProgress) => void
+    progress_interval?: number
+    is_collecting_statistics?: boolean
+    on_trace?: (event: TraceEvent) => void
+    branch_partition?: BranchPartition
+}
+
+export interface SearchState {
+    start_time: number
+    deadline: number
+    max_number_of_nodes: number
+    signal: AbortSignal | null
+    on_progress: ((progress: SearchProgress) => void) | null
+    progress_interval: number
+    next_progress_time: number
+    number_of_nodes: number
+    depth: number
+    stage: string
+    is_timed_out: boolean
+    is_out_of_nodes: boolean
+    is_cancelled: boolean
+    statistics: SearchStatistics | null
+    on_trace: ((event: TraceEvent) => void) | null
+    branch_partition: BranchPartition | null
+    number_of_partitioned_branches: number
+}
+
+export function createSearchState(options: SearchOptions = {}): SearchState {
+    const start_time = (new Date()).getTime()
+    const progress_interval = options.progress_interval ?? 1000
+
+    return {
+        start_time: start_time,
+        deadline: start_time + (options.timeout ?? Infinity),
+        max_number_of_nodes: options.max_number_of_nodes ?? Infinity,
+        signal: options.signal ?? null,
+        on_progress: options.on_progress ?? null,
+        progress_interval: progress_interval,
+        next_progress_time: start_time + progress_interval,
+        number_of_nodes: 0,
+        depth: 0,
+        stage: '',
+        is_timed_out: false,
+        is_out_of_nodes: false,
+        is_cancelled: false,
+        statistics: options.is_collecting_statistics ? { stages: {}, checks: {}, bfs_elapsed_ms: 0 } : null,
+        on_trace: options.on_trace ?? null,
+        branch_partition: options.branch_partition ?? null,
+        number_of_partitioned_branches: 0
+    }
+}
+
+export function isSearchStopped(search_state: SearchState): boolean {
+    return search_state.is_timed_out || search_state.is_out_of_nodes || search_state.is_cancelled
+}
+
+export function getSearchProgress(search_state: SearchState): SearchProgress {
+    return {
+        number_of_nodes: search_state.number_of_nodes,
+        depth: search_state.depth,
+        stage: search_state.stage,
+        elapsed_ms: (new Date()).getTime() - search_state.start_time
+    }
+}
+
+export function visitSearchNode(search_state: SearchState, depth: number = search_state.depth): boolean {
+    if (isSearchStopped(search_state)) {
+        return false
+    }
+
+    // The budget of nodes runs out like the time does, but is told apart so that the right limit gets raised.
+    if (search_state.number_of_nodes >= search_state.max_number_of_nodes) {
+        search_state.is_out_of_nodes = true
+        return false
+    }
+
+    if (search_state.signal?.aborted) {
+        search_state.is_cancelled = true
+        return false
+    }
+
+    search_state.number_of_nodes += 1
+    search_state.depth = depth
+
+    // Reading the clock on every node is too slow, so check it once in a while.
+    if (search_state.number_of_nodes % 64 !== 0) {
+        return true
+    }
+
+    const time = (new Date()).getTime()
+
+    if (time > search_state.deadline) {
+        search_state.is_timed_out = true
+        return false
+    }
+
+    if (search_state.on_progress !== null && time >= search_state.next_progress_time) {
+        search_state.next_progress_time = time + search_state.progress_interval
+        search_state.on_progress(getSearchProgress(search_state))
+    }
+
+    return true
+}
+
+export function searchBranch(search_state: SearchState, stage: string,
+    tile: string, coords: readonly Coordinate[], search: () => boolean): boolean {
+    const statistics = search_state.statistics === null ? null :
+        search_state.statistics.stages[stage] ?? (search_state.statistics.stages[stage] = { nodes: 0, backtracks: 0 })
+    const depth = search_state.depth
+    const branch_partition = search_state.branch_partition
+
+    // Every worker walks the same branches in the same order, so each takes the ones of its own index.
+    if (branch_partition !== null && depth === branch_partition.depth) {
+        const branch_i = search_state.number_of_partitioned_branches
+
+        search_state.number_of_partitioned_branches += 1
+
+        if (branch_i % branch_partition.count !== branch_partition.index) {
+            return false
+        }
+    }
+
+    search_state.stage = stage
+    search_state.on_trace?.({ event: 'place', stage: stage, depth: depth, tile: tile, coords: coords })
+
+    if (statistics !== null) {
+        statistics.nodes += 1
+    }
+
+    const is_found = search()
+
+    // The deeper branches change the stage, so put it back for the progress of this one.
+    search_state.stage = stage
+    search_state.depth = depth
+
+    if (!is_found) {
+        search_state.on_trace?.({ event: 'undo', stage: stage, depth: depth, tile: tile, coords: coords })
+
+        if (statistics !== null) {
+            statistics.backtracks += 1
+        }
+    }
+
+    return is_found
+}
+
+export function runCheck<T>(search_state: SearchState | null, check_name: string, check: () => T): T {
+    const statistics = search_state?.statistics ?? null
+
+    if (statistics === null) {
+        return check()
+    }
+
+    const start_time = performance.now()
+    const result = check()
+    const elapsed_time = performance.now() - start_time
+    const check_statistics = statistics.checks[check_name] ?? (statistics.checks[check_name] = { calls: 0, elapsed_ms: 0 })
+
+    check_statistics.calls += 1
+    check_statistics.elapsed_ms += elapsed_time
+
+    if (BFS_CHECK_NAMES.includes(check_name)) {
+        statistics.bfs_elapsed_ms += elapsed_time
+    }
+
+    return result
+}
+
+export function mergeSearchStatistics(statistics_list: readonly (SearchStatistics | null)[]): SearchStatistics | null {
+    let merged_statistics: SearchStatistics | null = null
+
+    for (const statistics of statistics_list) {
+        if (statistics === null) {
+            continue
+        }
+
+        merged_statistics = merged_statistics ?? { stages: {}, checks: {}, bfs_elapsed_ms: 0 }
+
+        for (const [stage, stage_statistics] of Object.entries(statistics.stages)) {
+            const merged_stage_statistics = merged_statistics.stages[stage] ??
+                (merged_statistics.stages[stage] = { nodes: 0, backtracks: 0 })
+
+            merged_stage_statistics.nodes += stage_statistics?.nodes ?? 0
+            merged_stage_statistics.backtracks += stage_statistics?.backtracks ?? 0
+        }
+
+        for (const [check_name, check_statistics] of Object.entries(statistics.checks)) {
+            const merged_check_statistics = merged_statistics.checks[check_name] ??
+                (merged_statistics.checks[check_name] = { calls: 0, elapsed_ms: 0 })
+
+            merged_check_statistics.calls += check_statistics?.calls ?? 0
+            merged_check_statistics.elapsed_ms += check_statistics?.elapsed_ms ?? 0
+        }
+
+        merged_statistics.bfs_elapsed_ms += statistics.bfs_elapsed_ms
+    }
+
+    return merged_statistics
+}
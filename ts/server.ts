@@ -0,0 +1,216 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http'
+import { augmentRawDiagram, getTreasureAndMonsterCoords } from './diagram.js'
+import { EngineName, isEngineName } from './engines.js'
+import { getCellDomainFromAscii, getDomainName } from './hint.js'
+import { parseGrid, parseLevel, render, verify } from './index.js'
+import { getSolverPage } from './page.js'
+import { parseAsciiGrid, ParsingDiagnostic } from './parser.js'
+import { collectTreasureRoomViolations } from './rules.js'
+import { SearchOptions } from './search.js'
+import { Dictionary, Level } from './types.js'
+import { findHintInWorker, solveLevelsInWorkers } from './workers.js'
+
+export interface ServerOptions {
+    engine: EngineName
+    search_options: SearchOptions
+}
+
+interface ServerReply {
+    status_code: number
+    body: object
+}
+
+type RequestBody = Dictionary<string, unknown>
+
+const MAX_REQUEST_BODY_LENGTH = 65536
+
+function getErrorReply(status_code: number, error: string,
+    diagnostics: readonly ParsingDiagnostic[] = []): ServerReply {
+    return { status_code: status_code, body: { error: error, diagnostics: diagnostics } }
+}
+
+function readRequestBody(request: IncomingMessage): Promise<string | null> {
+    return new Promise(resolve => {
+        const chunks: Buffer[] = []
+        let length = 0
+
+        request.on('data', (chunk: Buffer) => {
+            length += chunk.length
+
+            if (length <= MAX_REQUEST_BODY_LENGTH) {
+                chunks.push(chunk)
+            }
+        })
+        request.on('end', () => resolve(length <= MAX_REQUEST_BODY_LENGTH ? Buffer.concat(chunks).toString('utf8') : null))
+        request.on('error', () => resolve(null))
+    })
+}
+
+function parseRequestBody(text: string): RequestBody | null {
+    try {
+        const body: unknown = JSON.parse(text)
+
+        return typeof body === 'object' && body !== null && !Array.isArray(body) ? body as RequestBody : null
+    } catch {
+        return null
+    }
+}
+
+// The level is the text of an input file, so it goes through the same validation as the files.
+function parseRequestLevel(body: RequestBody): Level | ServerReply {
+    if (typeof body.level !== 'string') {
+        return getErrorReply(400, 'Field "level" should be the text of a level.')
+    }
+
+    const parsing_result = parseLevel(body.level)
+
+    return parsing_result.value ?? getErrorReply(422, 'The level is malformed.', parsing_result.diagnostics)
+}
+
+function isServerReply(value: Level | ServerReply): value is ServerReply {
+    return 'status_code' in value
+}
+
+async function replySolve(body: RequestBody, options: ServerOptions, signal: AbortSignal): Promise<ServerReply> {
+    const level = parseRequestLevel(body)
+    const engine = body.engine ?? options.engine
+
+    if (isServerReply(level)) {
+        return level
+    }
+
+    if (typeof engine !== 'string' || !isEngineName(engine)) {
+        return getErrorReply(400, `Engine "${engine}" doesn't exist.`)
+    }
+
+    // A worker keeps the server answering while the level is being solved.
+    const [solving_result] = await solveLevelsInWorkers([level],
+        { ...options.search_options, engine: engine, signal: signal }, 1)
+    const solution = solving_result.solutions[0] ?? null
+
+    return {
+        status_code: 200,
+        body: {
+            status: solving_result.status,
+            solution: solution === null ? null : render(solution),
+            treasure_rooms: solution === null ? [] : collectTreasureRoomViolations(
+                getTreasureAndMonsterCoords(augmentRawDiagram(level.raw_diagram))[0], augmentRawDiagram(solution))[1],
+            elapsed_ms: solving_result.elapsed_ms,
+            nodes: solving_result.nodes,
+            reasons: solving_result.reasons
+        }
+    }
+}
+
+function replyVerify(body: RequestBody): ServerReply {
+    const level = parseRequestLevel(body)
+
+    if (isServerReply(level)) {
+        return level
+    }
+
+    if (typeof body.grid !== 'string') {
+        return getErrorReply(400, 'Field "grid" should be the text of a solution.')
+    }
+
+    const parsing_result = parseGrid(body.grid, level)
+
+    if (parsing_result.value === null) {
+        return getErrorReply(422, 'The grid is malformed.', parsing_result.diagnostics)
+    }
+
+    return { status_code: 200, body: { violations: verify(level, parsing_result.value) } }
+}
+
+async function replyHint(body: RequestBody, options: ServerOptions, signal: AbortSignal): Promise<ServerReply> {
+    const level = parseRequestLevel(body)
+
+    if (isServerReply(level)) {
+        return level
+    }
+
+    if (body.marks !== undefined && typeof body.marks !== 'string') {
+        return getErrorReply(400, 'Field "marks" should be the text of the marks.')
+    }
+
+    const parsing_result = body.marks === undefined ? null : parseAsciiGrid(body.marks.split(/\r?\n/),
+        level.row_projection.length, level.column_projection.length, getCellDomainFromAscii)
+
+    if (parsing_result !== null && parsing_result.value === null) {
+        return getErrorReply(422, 'The marks are malformed.', parsing_result.diagnostics)
+    }
+
+    // The hypotheses share the budget of the solve endpoint, in a worker to keep the server answering.
+    const hint_result = await findHintInWorker(level, parsing_result?.value ?? null,
+        { ...options.search_options, signal: signal })
+
+    return {
+        status_code: 200,
+        body: {
+            ...hint_result,
+            hint: hint_result.hint === null ? null : { ...hint_result.hint, domain: getDomainName(hint_result.hint.domain) }
+        }
+    }
+}
+
+async function replyRequest(request: IncomingMessage, options: ServerOptions, signal: AbortSignal): Promise<ServerReply> {
+    const path = (request.url ?? '/').split('?')[0]
+
+    if (!['/solve', '/verify', '/hint'].includes(path)) {
+        return getErrorReply(404, `Path "${path}" doesn't exist.`)
+    }
+
+    if (request.method !== 'POST') {
+        return getErrorReply(405, `Path "${path}" only accepts POST.`)
+    }
+
+    const text = await readRequestBody(request)
+
+    if (text === null) {
+        return getErrorReply(413, `The body should be at most ${MAX_REQUEST_BODY_LENGTH} bytes.`)
+    }
+
+    const body = parseRequestBody(text)
+
+    if (body === null) {
+        return getErrorReply(400, 'The body should be a JSON object.')
+    }
+
+    switch (path) {
+        case '/solve':
+            return await replySolve(body, options, signal)
+        case '/verify':
+            return replyVerify(body)
+        default:
+            return await replyHint(body, options, signal)
+    }
+}
+
+export function createSolvingServer(options: ServerOptions): Server {
+    const page = getSolverPage(options.engine)
+
+    return createServer(async (request: IncomingMessage, response: ServerResponse) => {
+        const abort_controller = new AbortController()
+
+        // Stop solving for a client which is gone.
+        response.on('close', () => abort_controller.abort())
+
+        if (request.method === 'GET' && request.url === '/') {
+            response.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8' })
+            response.end(page)
+            return
+        }
+
+        let reply: ServerReply
+
+        // A failing worker or request mustn't bring down the server.
+        try {
+            reply = await replyRequest(request, options, abort_controller.signal)
+        } catch (error) {
+            reply = getErrorReply(500, `Failed to answer the request: ${error instanceof Error ? error.message : error}.`)
+        }
+
+        response.writeHead(reply.status_code, { 'Content-Type': 'application/json; charset=utf-8' })
+        response.end(JSON.stringify(reply.body))
+    })
+}
@@ -0,0 +1,106 @@
+import { augmentRawDiagram, getTreasureAndMonsterCoords } from './diagram.js'
+import { CellDomain } from './propagation.js'
+import { checkTreasureRooms } from './rules.js'
+import { Coordinate, Level, Projection, TileType } from './types.js'
+
+// A tile which isn't known yet is null, such as the empty spaces of an unsolved level.
+export type SvgTile = TileType | null
+export type SvgGrid = readonly (readonly SvgTile[])[]
+
+const TILE_SIZE = 32
+const UNKNOWN_COLOR = '#f7f3ea'
+const FLOOR_COLOR = '#e3d5b5'
+const WALL_COLOR = '#5b4636'
+const MORTAR_COLOR = '#8a735f'
+const TREASURE_COLOR = '#e0a526'
+const MONSTER_COLOR = '#b03a2e'
+const ROOM_COLOR = '#d68910'
+const GRID_COLOR = '#b9ad96'
+
+export function getSvgGrid(level: Level, marks: readonly (readonly CellDomain[])[] | null = null): SvgGrid {
+    return level.raw_diagram.map((row, row_i) => row.map((tile, column_i) => {
+        if (tile !== TileType.EMPTY_SPACE) {
+            return tile
+        }
+
+        switch (marks?.[row_i][column_i]) {
+            case CellDomain.WALL:
+                return TileType.WALL
+            case CellDomain.FLOOR:
+                return TileType.EMPTY_SPACE
+            default:
+                return null
+        }
+    }))
+}
+
+function getTileArt(tile: SvgTile, left: number, top: number): string {
+    const center_x = left + TILE_SIZE / 2
+    const center_y = top + TILE_SIZE / 2
+    const background = `<rect x="${left}" y="${top}" width="${TILE_SIZE}" height="${TILE_SIZE}" fill="${
+        tile === null ? UNKNOWN_COLOR : tile === TileType.WALL ? WALL_COLOR : FLOOR_COLOR}" stroke="${GRID_COLOR}"/>`
+
+    switch (tile) {
+        case TileType.WALL:
+            // Two courses of bricks.
+            return background +
+                `<path d="M${left} ${center_y}H${left + TILE_SIZE}M${center_x} ${top}V${center_y}` +
+                `M${left + TILE_SIZE / 4} ${center_y}V${top + TILE_SIZE}M${left + TILE_SIZE * 3 / 4} ${center_y}V${top + TILE_SIZE}" ` +
+                `stroke="${MORTAR_COLOR}" stroke-width="2"/>`
+        case TileType.TREASURE:
+            return background +
+                `<rect x="${left + 7}" y="${top + 11}" width="${TILE_SIZE - 14}" height="${TILE_SIZE - 18}" rx="2" ` +
+                `fill="${TREASURE_COLOR}" stroke="${WALL_COLOR}" stroke-width="1.5"/>` +
+                `<path d="M${left + 7} ${top + 16}H${left + TILE_SIZE - 7}M${center_x} ${top + 14}V${top + 19}" ` +
+                `stroke="${WALL_COLOR}" stroke-width="1.5"/>`
+        case TileType.MONSTER:
+            return background +
+                `<circle cx="${center_x}" cy="${center_y}" r="${TILE_SIZE / 2 - 6}" fill="${MONSTER_COLOR}"/>` +
+                `<circle cx="${center_x - 4}" cy="${center_y - 2}" r="2" fill="${UNKNOWN_COLOR}"/>` +
+                `<circle cx="${center_x + 4}" cy="${center_y - 2}" r="2" fill="${UNKNOWN_COLOR}"/>`
+        default:
+            return background
+    }
+}
+
+// A room is outlined when the tiles known so far already make it, unknown tiles count as empty spaces.
+function getTreasureRoomLTCoords(grid: SvgGrid): Coordinate[] {
+    const diagram = augmentRawDiagram(grid.map(row => row.map(
+        tile => tile === null || tile === TileType.FLOOR ? TileType.EMPTY_SPACE : tile)))
+
+    return getTreasureAndMonsterCoords(diagram)[0].flatMap(
+        treasure_coord => checkTreasureRooms([treasure_coord], diagram)[1])
+}
+
+function getProjectionText(projection: number, center_x: number, center_y: number): string {
+    return `<text x="${center_x}" y="${center_y}" text-anchor="middle" dominant-baseline="central" ` +
+        `font-family="monospace" font-size="${TILE_SIZE / 2}">${projection}</text>`
+}
+
+// The projections of columns are on top and those of rows on the left, like in the game.
+export function getSvgDiagram(row_projection: Projection, column_projection: Projection, grid: SvgGrid,
+    is_outlining_rooms: boolean = true): string {
+    const width = (column_projection.length + 1) * TILE_SIZE
+    const height = (row_projection.length + 1) * TILE_SIZE
+    const elements: string[] = [`<rect width="${width}" height="${height}" fill="white"/>`]
+
+    column_projection.forEach((projection, column_i) => elements.push(
+        getProjectionText(projection, (column_i + 1.5) * TILE_SIZE, TILE_SIZE / 2)))
+    row_projection.forEach((projection, row_i) => elements.push(
+        getProjectionText(projection, TILE_SIZE / 2, (row_i + 1.5) * TILE_SIZE)))
+    grid.forEach((row, row_i) => row.forEach((tile, column_i) => elements.push(
+        getTileArt(tile, (column_i + 1) * TILE_SIZE, (row_i + 1) * TILE_SIZE))))
+
+    if (is_outlining_rooms) {
+        for (const lt_coord of getTreasureRoomLTCoords(grid)) {
+            elements.push(`<rect x="${lt_coord.y * TILE_SIZE + 1.5}" y="${lt_coord.x * TILE_SIZE + 1.5}" ` +
+                `width="${TILE_SIZE * 3 - 3}" height="${TILE_SIZE * 3 - 3}" fill="none" stroke="${ROOM_COLOR}" stroke-width="3"/>`)
+        }
+    }
+
+    return [
+        `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">`,
+        ...elements,
+        '</svg>'
+    ].join('\n')
+}
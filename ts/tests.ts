@@ -0,0 +1,561 @@
+import { analyzeLevel } from './analysis.js'
+import { createBenchmarkSubjects, runBenchmark } from './benchmark.js'
+import { getBitboard, getDeadEndBitboard, hasBitboardHallway } from './bitboard.js'
+import { encodeLevel, getDimacsText, getRawDiagramFromModel, getWallVariable, parseSatModel } from './cnf.js'
+import { augmentRawDiagram, getRawDiagram } from './diagram.js'
+import { explainLevel, formatConflict } from './explain.js'
+import { parseGrid, render, renderSvg, solve, solveLevelsInWorkers, verify } from './index.js'
+import { parseInputFile } from './io.js'
+import { getTileTypeFromAscii, parseAsciiGrid, parseLevelLines } from './parser.js'
+import { collectMarkViolations, createPlayState, getProjectionStatuses, redoMove, toggleMark, undoMove } from './play.js'
+import { CellDomain, createPropagationContext } from './propagation.js'
+import { checkEmptySpacesConnectivity, checkHallways, checkTreasureRooms, getRuleChecks } from './rules.js'
+import { isSatisfiableCnf } from './sat.js'
+import { createSolvingServer } from './server.js'
+import { createSearchState, TraceEvent } from './search.js'
+import { Diagram, Level, TileType } from './types.js'
+
+export interface TestCase {
+    name: string
+    run: () => boolean | Promise<boolean>
+}
+
+export function getDiagramFromAscii(lines: readonly string[]): Diagram {
+    return augmentRawDiagram(
+        parseAsciiGrid(lines, lines.length, lines[0]?.length ?? 0, getTileTypeFromAscii).value ?? [])
+}
+
+export const TREASURE_ROOM_ASCII_DIAGRAM: readonly string[] = [
+    'T--#',
+    '----',
+    '---#',
+    '####'
+]
+
+export const UNIT_TEST_CASES: readonly TestCase[] = [
+    {
+        name: 'checkHallways rejects a 2x2 hallway',
+        run: () => !checkHallways([], getDiagramFromAscii(['--#', '--#', '###']))
+    },
+    {
+        name: 'checkHallways accepts hallways 1 tile wide',
+        run: () => checkHallways([], getDiagramFromAscii(['-#-', '---', '-#-']))
+    },
+    {
+        name: 'checkHallways ignores tiles inside treasure rooms',
+        run: () => checkHallways([{ x: 1, y: 1 }], getDiagramFromAscii(TREASURE_ROOM_ASCII_DIAGRAM)) &&
+            !checkHallways([], getDiagramFromAscii(TREASURE_ROOM_ASCII_DIAGRAM))
+    },
+    {
+        name: 'checkTreasureRooms finds a room with one exit',
+        run: () => {
+            const [flag_treasures, treasure_room_lt_coords] =
+                checkTreasureRooms([{ x: 1, y: 1 }], getDiagramFromAscii(TREASURE_ROOM_ASCII_DIAGRAM))
+
+            return flag_treasures && treasure_room_lt_coords.length === 1 &&
+                treasure_room_lt_coords[0].x === 1 && treasure_room_lt_coords[0].y === 1
+        }
+    },
+    {
+        name: 'checkTreasureRooms rejects a room with two exits',
+        run: () => !checkTreasureRooms([{ x: 1, y: 1 }], getDiagramFromAscii(['T--#', '----', '----', '####']))[0]
+    },
+    {
+        name: 'checkTreasureRooms rejects a room with a monster inside',
+        run: () => !checkTreasureRooms([{ x: 1, y: 1 }], getDiagramFromAscii(['T--#', '----', '--M#', '####']))[0]
+    },
+    {
+        name: 'checkEmptySpacesConnectivity accepts connected empty spaces',
+        run: () => checkEmptySpacesConnectivity(getDiagramFromAscii(['-#-', '---']))
+    },
+    {
+        name: 'checkEmptySpacesConnectivity rejects separated empty spaces',
+        run: () => !checkEmptySpacesConnectivity(getDiagramFromAscii(['-#-', '-#-']))
+    },
+    {
+        name: 'getDeadEndBitboard and hasBitboardHallway read the tiles around',
+        run: () => {
+            const diagram = getDiagramFromAscii(['---', '#-#'])
+            const dead_ends = getDeadEndBitboard(getBitboard(diagram, [TileType.WALL]), 5)
+
+            return dead_ends[1] === 0b1010 && dead_ends[2] === 0b100 &&
+                hasBitboardHallway(getBitboard(getDiagramFromAscii(['--', '--']), [TileType.EMPTY_SPACE])) &&
+                !hasBitboardHallway(getBitboard(diagram, [TileType.EMPTY_SPACE]))
+        }
+    },
+    {
+        name: 'bitboards agree with the checks on arrays',
+        run: () => runBenchmark(createBenchmarkSubjects(10, 6, 6, 1), 1).every(record => record.is_agreed)
+    },
+    {
+        name: 'every engine solves levels too wide for bitboards',
+        run: () => [31, 33].every(width => {
+            // A corridor along the top row between two monsters, under two rows of walls.
+            const level: Level = {
+                row_projection: [0, width, width],
+                column_projection: new Array<number>(width).fill(2),
+                raw_diagram: [
+                    new Array<TileType>(width).fill(TileType.EMPTY_SPACE).map(
+                        (tile, column_i) => column_i === 0 || column_i === width - 1 ? TileType.MONSTER : tile),
+                    new Array<TileType>(width).fill(TileType.EMPTY_SPACE),
+                    new Array<TileType>(width).fill(TileType.EMPTY_SPACE)
+                ]
+            }
+
+            return (['dfs', 'propagation', 'sat'] as const).every(engine => {
+                const result = solve(level, { engine: engine })
+
+                return result.status === 'solved' && verify(level, result.solutions[0]).length === 0
+            })
+        })
+    },
+    {
+        name: 'analyzeLevel rejects a walled in monster and a treasure without room',
+        run: () => {
+            const monster_violations = analyzeLevel(createPropagationContext(
+                { row_projection: [1, 2, 1], column_projection: [1, 2, 1], raw_diagram: [[0, 0, 0], [0, 2, 0], [0, 0, 0]] }))
+            const treasure_violations = analyzeLevel(createPropagationContext(
+                { row_projection: [0, 0, 0], column_projection: [0, 0, 0], raw_diagram: [[0, 0, 0], [0, 1, 0], [0, 0, 0]] }))
+
+            return monster_violations.length === 1 && monster_violations[0].rule === 'monsters' &&
+                treasure_violations.length === 1 && treasure_violations[0].rule === 'treasures'
+        }
+    },
+    {
+        name: 'analyzeLevel rejects overlapping forced treasure rooms',
+        run: () => analyzeLevel(createPropagationContext({
+            row_projection: [0, 1, 0, 1, 0],
+            column_projection: [1, 0, 1],
+            raw_diagram: [[0, 1, 0], [0, 0, 0], [0, 0, 0], [0, 0, 0], [0, 1, 0]]
+        })).some(violation => violation.rule === 'treasures' && violation.coords.length === 3)
+    },
+    {
+        name: 'solve stops at the budget of nodes and when cancelled',
+        run: async () => {
+            const level = await parseInputFile('8_8.txt')
+            const abort_controller = new AbortController()
+
+            if (level === null) {
+                return false
+            }
+
+            const budget_result = solve(level, { engine: 'dfs', max_number_of_nodes: 100 })
+            const cancelled_result = solve(level, {
+                engine: 'dfs',
+                signal: abort_controller.signal,
+                on_progress: () => abort_controller.abort(),
+                progress_interval: 0
+            })
+            // The signal is checked on every node, not only when the clock is read.
+            const trace_abort_controller = new AbortController()
+            const trace_cancelled_result = solve(level, {
+                engine: 'dfs',
+                signal: trace_abort_controller.signal,
+                on_trace: () => trace_abort_controller.abort()
+            })
+
+            return budget_result.status === 'node limit' && budget_result.nodes === 100 &&
+                cancelled_result.status === 'cancelled' && cancelled_result.solutions.length === 0 &&
+                trace_cancelled_result.status === 'cancelled' && trace_cancelled_result.nodes < 64
+        }
+    },
+    {
+        name: 'solve counts the stages and traces every placement and undo',
+        run: async () => {
+            const level = await parseInputFile('3_1.txt')
+            const trace_events: TraceEvent[] = []
+
+            if (level === null) {
+                return false
+            }
+
+            const solving_result = solve(level, {
+                engine: 'dfs',
+                is_collecting_statistics: true,
+                on_trace: event => trace_events.push(event)
+            })
+            const statistics = solving_result.statistics
+
+            if (statistics === null) {
+                return false
+            }
+
+            const stages = Object.values(statistics.stages)
+            const number_of_places = trace_events.filter(event => event.event === 'place').length
+            const number_of_undos = trace_events.filter(event => event.event === 'undo').length
+
+            return solving_result.status === 'solved' &&
+                stages.reduce((pre, cur) => pre + (cur?.nodes ?? 0), 0) === number_of_places &&
+                stages.reduce((pre, cur) => pre + (cur?.backtracks ?? 0), 0) === number_of_undos &&
+                (statistics.checks['isTreasuresAndMonstersConnected']?.calls ?? 0) > 0 &&
+                statistics.bfs_elapsed_ms > 0
+        }
+    },
+    {
+        name: 'solve finds the solution in one of the partitions of branches',
+        run: async () => {
+            const level = await parseInputFile('3_1.txt')
+
+            if (level === null) {
+                return false
+            }
+
+            const whole_result = solve(level, { engine: 'dfs' })
+            const partition_results = [0, 1, 2].map(index => solve(level, {
+                engine: 'dfs',
+                branch_partition: { index: index, count: 3, depth: 0 }
+            }))
+
+            return partition_results.some(result => result.status === 'solved') &&
+                partition_results.every(result => result.nodes <= whole_result.nodes)
+        }
+    },
+    {
+        name: 'solveLevelsInWorkers solves every level',
+        run: async () => {
+            const levels = await Promise.all(['3_1.txt', '3_2.txt', '3_3.txt'].map(file_name => parseInputFile(file_name)))
+            const results = await solveLevelsInWorkers(
+                levels.filter((level): level is Level => level !== null), {}, 2)
+
+            return results.length === 3 && results.every(result => result.status === 'solved')
+        }
+    },
+    {
+        name: 'encodeLevel numbers the walls first and keeps clues out of walls',
+        run: () => {
+            const cnf = encodeLevel({ row_projection: [1, 1], column_projection: [1, 1], raw_diagram: [[0, 0], [0, 2]] })
+
+            return getDimacsText(cnf).includes(`p cnf ${cnf.number_of_variables} ${cnf.clauses.length}`) &&
+                cnf.clauses.some(clause => clause.length === 1 && clause[0] === -getWallVariable(2, 2, 2))
+        }
+    },
+    {
+        name: 'parseSatModel reads a model into the walls of the diagram',
+        run: () => {
+            const level = { row_projection: [1, 1], column_projection: [1, 1], raw_diagram: [[0, 0], [0, 2]] }
+            const model = parseSatModel(['s SATISFIABLE', 'v -1 2 3 -4 0']).value
+
+            return model !== null && model.is_satisfiable &&
+                render(getRawDiagramFromModel(level, model)) === '-#\n#M' &&
+                parseSatModel(['UNSAT']).value?.is_satisfiable === false &&
+                parseSatModel(['SAT', '1 x 0']).value === null
+        }
+    },
+    {
+        name: 'isSatisfiableCnf tells three pigeons in two holes from two',
+        run: () => {
+            // Variable 2 * pigeon + hole - 2 is true when the pigeon sits in the hole.
+            function getPigeonholeClauses(number_of_pigeons: number): number[][] {
+                const pigeons = Array.from({ length: number_of_pigeons }, (_, pigeon_i) => pigeon_i)
+
+                return [
+                    ...pigeons.map(pigeon_i => [2 * pigeon_i + 1, 2 * pigeon_i + 2]),
+                    ...pigeons.flatMap(pigeon_i => pigeons.filter(other_i => other_i > pigeon_i).flatMap(other_i =>
+                        [[-(2 * pigeon_i + 1), -(2 * other_i + 1)], [-(2 * pigeon_i + 2), -(2 * other_i + 2)]]))
+                ]
+            }
+
+            return isSatisfiableCnf(4, getPigeonholeClauses(2)) && !isSatisfiableCnf(6, getPigeonholeClauses(3))
+        }
+    },
+    {
+        name: 'the sat engine agrees with the propagation engine',
+        run: async () => {
+            const level = await parseInputFile('3_1.txt')
+
+            if (level === null) {
+                return false
+            }
+
+            const sat_result = solve(level, { engine: 'sat', max_number_of_solutions: 2 })
+            const propagation_result = solve(level, { engine: 'propagation', max_number_of_solutions: 2 })
+
+            return sat_result.status === 'solved' && sat_result.solutions.length === 1 &&
+                propagation_result.solutions.length === 1 &&
+                render(sat_result.solutions[0]) === render(propagation_result.solutions[0])
+        }
+    },
+    {
+        name: 'every engine keeps the known floors and reports marks which contradict every solution',
+        run: async () => {
+            const level = await parseInputFile('1_1.txt')
+            const solution = level === null ? null : parseGrid(
+                '-----###\n-#-#---M\n-#M#-###\n-###---M\n---#-###\n-T-#---M\n---#-###\n####---M', level).value
+
+            if (level === null || solution === null) {
+                return false
+            }
+
+            // The first row is marked as in the solution, a floor where the solution has a wall contradicts it.
+            const marked_level = { ...level, raw_diagram: level.raw_diagram.map((row, row_i) => row.map((tile, column_i) =>
+                row_i === 0 ? (solution[0][column_i] === TileType.WALL ? TileType.WALL : TileType.FLOOR) : tile)) }
+            const contradicting_level = { ...level, raw_diagram: level.raw_diagram.map((row, row_i) => row.map((tile, column_i) =>
+                row_i === 0 && column_i === 5 ? TileType.FLOOR : tile)) }
+            const walled_level = { ...level, raw_diagram: level.raw_diagram.map((row, row_i) => row.map((tile, column_i) =>
+                row_i === 0 && column_i === 0 ? TileType.WALL : tile)) }
+            const walled_result = solve(walled_level)
+
+            return (['dfs', 'propagation', 'sat'] as const).every(engine => {
+                const marked_result = solve(marked_level, { engine: engine })
+                const contradicting_result = solve(contradicting_level, { engine: engine })
+
+                return marked_result.status === 'solved' && render(marked_result.solutions[0]) === render(solution) &&
+                    contradicting_result.status === 'failed' && contradicting_result.reasons.length === 1 &&
+                    contradicting_result.reasons[0].rule === 'marks'
+            }) &&
+                // The walls of a level are clues rather than marks, and a partition of branches can't blame the floors.
+                walled_result.status === 'failed' && walled_result.reasons.length === 0 &&
+                solve(contradicting_level, { branch_partition: { index: 0, count: 1, depth: 0 } }).reasons.length === 0 &&
+                parseLevelLines(['  0 0 1', '0 _ - T', '1 M . .']).value?.raw_diagram[0].join(' ') === '4 0 1'
+        }
+    },
+    {
+        name: 'every engine fits a treasure room around known floors',
+        run: async () => {
+            const level = await parseInputFile('1_1.txt')
+
+            if (level === null) {
+                return false
+            }
+
+            // The room of the treasure at (6,2) takes rows 5 to 7 and columns 1 to 3.
+            const marked_level = { ...level, raw_diagram: level.raw_diagram.map((row, row_i) => row.map((tile, column_i) =>
+                row_i >= 4 && row_i <= 6 && column_i <= 2 && tile === TileType.EMPTY_SPACE ? TileType.FLOOR : tile)) }
+
+            return (['dfs', 'propagation', 'sat'] as const).every(engine => solve(marked_level, { engine: engine }).status === 'solved') &&
+                explainLevel(marked_level, createSearchState()).status === 'solvable'
+        }
+    },
+    {
+        name: 'verify breaks the hallway and dead end rules with known floors as with empty spaces',
+        run: () => {
+            const hallway_level = { row_projection: [0, 0], column_projection: [0, 0], raw_diagram: [[0, 0], [0, 0]] }
+            const dead_end_level = { row_projection: [1, 3], column_projection: [1, 1, 2], raw_diagram: [[0, 0, 0], [0, 0, 0]] }
+            const getRules = (level: Level, grid: TileType[][]) => verify(level, grid).map(violation => violation.rule).join(' ')
+
+            return getRules(hallway_level, [[4, 4], [4, 4]]) === 'hallways' &&
+                getRules(hallway_level, [[4, 4], [4, 4]]) === getRules(hallway_level, [[0, 0], [0, 0]]) &&
+                getRules(dead_end_level, [[4, 4, 3], [3, 3, 3]]) === 'monsters monsters' &&
+                getRules(dead_end_level, [[4, 4, 3], [3, 3, 3]]) === getRules(dead_end_level, [[0, 0, 3], [3, 3, 3]])
+        }
+    },
+    {
+        name: 'explainLevel narrows an unsolvable level down to the clues which conflict',
+        run: async () => {
+            const level = await parseInputFile('1_1.txt')
+
+            if (level === null) {
+                return false
+            }
+
+            // One more wall in row 4 and column 7 leaves column 7 no room beside the monsters of column 8.
+            const explanation = explainLevel({
+                ...level,
+                row_projection: level.row_projection.map((projection, row_i) => row_i === 3 ? projection + 1 : projection),
+                column_projection: level.column_projection.map(
+                    (projection, column_i) => column_i === 6 ? projection + 1 : projection)
+            }, createSearchState())
+
+            return explainLevel(level, createSearchState()).status === 'solvable' &&
+                explanation.status === 'conflicting' &&
+                formatConflict(explanation.clues) === 'column 7 = 5 conflicts with column 8 = 4, the monster at (2,8), ' +
+                'the monster at (4,8), the monster at (6,8) and the monster at (8,8)'
+        }
+    },
+    {
+        name: 'collectMarkViolations reports a dead end only once the marks close it, and follows undo and redo',
+        run: () => {
+            const state = createPlayState(createPropagationContext(
+                { row_projection: [1, 0, 1], column_projection: [2, 0, 0], raw_diagram: [[0, 0, 0], [0, 0, 0], [0, 0, 0]] }))
+            const marks: readonly [number, number, CellDomain][] = [
+                [1, 1, CellDomain.WALL], [3, 1, CellDomain.WALL], [2, 1, CellDomain.FLOOR], [2, 2, CellDomain.FLOOR]
+            ]
+
+            for (const [x, y, domain] of marks) {
+                state.cursor = { x: x, y: y }
+                toggleMark(state, domain)
+            }
+
+            const is_closed = collectMarkViolations(state).some(violation => violation.rule === 'monsters')
+
+            undoMove(state)
+
+            const is_open = collectMarkViolations(state).length === 0
+
+            redoMove(state)
+
+            return is_closed && is_open && getProjectionStatuses(state)[1][0] === 'satisfied' &&
+                collectMarkViolations(state).some(violation => violation.rule === 'monsters')
+        }
+    },
+    {
+        name: 'createSolvingServer solves a level and reports a malformed one',
+        run: async () => {
+            const server = createSolvingServer({ engine: 'propagation', search_options: {} })
+            const limited_server = createSolvingServer({ engine: 'propagation', search_options: { max_number_of_nodes: 0 } })
+
+            await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+
+            const address = server.address()
+            const url = `http://127.0.0.1:${typeof address === 'object' && address !== null ? address.port : 0}`
+            const solve_response = await fetch(`${url}/solve`, {
+                method: 'POST', body: JSON.stringify({ level: '2 0 2\n2 0 2\n0 2 0\n2 0 2\n0 2 0' })
+            })
+            const solve_reply = await solve_response.json() as { status: string }
+            const malformed_response = await fetch(`${url}/solve`, {
+                method: 'POST', body: JSON.stringify({ level: '1 1\n1' })
+            })
+
+            server.close()
+
+            // The hint shares the budget of nodes of the server.
+            await new Promise<void>(resolve => limited_server.listen(0, '127.0.0.1', resolve))
+
+            const limited_address = limited_server.address()
+            const limited_url = `http://127.0.0.1:${typeof limited_address === 'object' && limited_address !== null ?
+                limited_address.port : 0}`
+            const hint_response = await fetch(`${limited_url}/hint`, {
+                method: 'POST', body: JSON.stringify({ level: '2 0 2\n2 0 2\n0 2 0\n2 0 2\n0 2 0' })
+            })
+            const hint_reply = await hint_response.json() as { hint: unknown, stopped: string | null }
+
+            limited_server.close()
+
+            return solve_response.status === 200 && solve_reply.status === 'solved' &&
+                malformed_response.status === 422 && hint_reply.hint === null && hint_reply.stopped === 'node limit'
+        }
+    },
+    {
+        name: 'createSolvingServer answers another request while looking for a hint',
+        run: async () => {
+            const server = createSolvingServer({ engine: 'propagation', search_options: {} })
+
+            await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+
+            const address = server.address()
+            const url = `http://127.0.0.1:${typeof address === 'object' && address !== null ? address.port : 0}`
+            // No rule forces a tile of this open level, so every hypothesis is tried, which takes a while.
+            const projection_line = new Array<number>(24).fill(12).join(' ')
+            const level_text = [projection_line, projection_line, '',
+                ...new Array<string>(24).fill(new Array<number>(24).fill(0).join(' '))].join('\n')
+            const finished_paths: string[] = []
+            const postRequest = async (path: string, body: object) => {
+                const response = await fetch(`${url}${path}`, { method: 'POST', body: JSON.stringify(body) })
+
+                finished_paths.push(path)
+
+                return await response.json() as { hint?: unknown, stopped?: unknown, violations?: unknown[] }
+            }
+            const hint_promise = postRequest('/hint', { level: level_text })
+            const verify_reply = await postRequest('/verify', { level: '1 1\n1 1\n\n0 0\n0 0', grid: '#-\n-#' })
+            const hint_reply = await hint_promise
+
+            server.close()
+
+            return finished_paths.join(' ') === '/verify /hint' && verify_reply.violations !== undefined &&
+                hint_reply.hint === null && hint_reply.stopped === null
+        }
+    },
+    {
+        name: 'renderSvg outlines a treasure room only once its walls are known',
+        run: () => {
+            const grid = getRawDiagram(getDiagramFromAscii(TREASURE_ROOM_ASCII_DIAGRAM))
+            const level = {
+                row_projection: [1, 0, 1, 4], column_projection: [1, 1, 1, 3],
+                raw_diagram: grid.map(row => row.map(tile => tile === TileType.WALL ? TileType.EMPTY_SPACE : tile))
+            }
+            const countOutlines = (svg: string) => svg.split('fill="none"').length - 1
+
+            return countOutlines(render(grid, 'svg')) === 1 && countOutlines(renderSvg(level)) === 0 &&
+                renderSvg(level).startsWith('<svg')
+        }
+    },
+    {
+        name: 'getRuleChecks goes on checking the rules after one fails',
+        run: () => {
+            // The exit of the room is a dead end without a monster, the checks after it still run.
+            const rule_checks = getRuleChecks([{ x: 1, y: 1 }], [], getDiagramFromAscii(TREASURE_ROOM_ASCII_DIAGRAM))
+            const broken_rule_checks = getRuleChecks([{ x: 1, y: 1 }], [],
+                getDiagramFromAscii(['T---', '----', '---#', '####']))
+
+            return rule_checks.connectivity && rule_checks.treasures && !rule_checks.monsters && rule_checks.hallways &&
+                rule_checks.treasure_room_lt_coords.length === 1 &&
+                broken_rule_checks.connectivity && !broken_rule_checks.treasures && !broken_rule_checks.hallways
+        }
+    },
+    {
+        name: 'parseInputFile rejects a missing file',
+        run: async () => await parseInputFile('__missing__.txt') === null
+    },
+    {
+        name: 'parseLevelLines rejects a line with a wrong count of numbers',
+        run: () => parseLevelLines(['1 1', '1 1 1', '', '0 0 0', '0 0']).value === null &&
+            parseLevelLines(['1 1', '1 1', '', '0 0 0', '0 0']).value === null
+    },
+    {
+        name: 'parseLevelLines rejects illegal values',
+        run: () => parseLevelLines(['1 1', '1 1', '', '0 5', '0 0']).value === null &&
+            parseLevelLines(['1 1', '1 a', '', '0 0', '0 0']).value === null &&
+            parseLevelLines(['1 -1', '1 1', '', '0 0', '0 0']).value === null
+    },
+    {
+        name: 'parseLevelLines rejects a projection larger than the line',
+        run: () => parseLevelLines(['3 0', '1 1', '', '0 0', '0 0']).value === null &&
+            parseLevelLines(['1 1', '3 0', '', '0 0', '0 0']).value === null
+    },
+    {
+        name: 'parseLevelLines rejects a wrong count of lines',
+        run: () => parseLevelLines(['1 1', '1 1', '', '0 0']).value === null &&
+            parseLevelLines(['1 1', '1 1', '', '0 0', '0 0', '0 0']).value === null
+    },
+    {
+        name: 'parseLevelLines reports every problem with its position',
+        run: () => {
+            const diagnostics = parseLevelLines(['1 1', '1 1', '', '0 x', '0 0 0']).diagnostics
+
+            return diagnostics.length === 2 &&
+                diagnostics[0].line === 4 && diagnostics[0].column === 3 && diagnostics[0].token === 'x' &&
+                diagnostics[1].line === 5 && diagnostics[1].column === 5 && diagnostics[1].token === '0'
+        }
+    },
+    {
+        name: 'parseLevelLines rejects projections which the clues can\'t satisfy',
+        run: () => parseLevelLines(['1 1', '1 0', '', '0 0', '0 0']).value === null &&
+            parseLevelLines(['2 0', '1 1', '', '1 0', '0 0']).value === null &&
+            parseLevelLines(['0 1', '1 0', '', '3 0', '0 0']).value === null
+    },
+    {
+        name: 'parseLevelLines reads a level',
+        run: () => {
+            const level = parseLevelLines(['0 1', '0 0 1', '', '0 1 0', '2 0 3']).value
+
+            return level !== null &&
+                level.row_projection.join(' ') === '0 1' &&
+                level.column_projection.join(' ') === '0 0 1' &&
+                level.raw_diagram.map(row => row.join(' ')).join('\n') === '0 1 0\n2 0 3'
+        }
+    },
+    {
+        name: 'parseLevelLines reads a character grid level',
+        run: () => {
+            const level = parseLevelLines(['  0 0 1', '0 . T .', '1 M . .']).value
+
+            return level !== null &&
+                level.row_projection.join(' ') === '0 1' &&
+                level.column_projection.join(' ') === '0 0 1' &&
+                level.raw_diagram.map(row => row.join(' ')).join('\n') === '0 1 0\n2 0 0' &&
+                parseLevelLines(['001', '0.T.', '1M..']).value !== null &&
+                parseLevelLines(['001', '0.T.', '1M.']).value === null &&
+                parseLevelLines(['  0 0 1', '0 - - -', '1 - - -']).value?.raw_diagram.join(' ') === '0,0,0 0,0,0'
+        }
+    },
+    {
+        name: 'parseLevelLines reads a negative number as a number rather than a character grid',
+        run: () => {
+            const diagnostics = parseLevelLines(['1 -1', '1 1', '', '0 0', '0 0']).diagnostics
+
+            return diagnostics.length === 1 && diagnostics[0].token === '-1' &&
+                diagnostics[0].message.startsWith('Projection "-1"')
+        }
+    }
+]
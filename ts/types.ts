@@ -0,0 +1,71 @@
+export type Dictionary<K extends string | number | symbol = string, V = string> = { [key in K]?: V }
+export type Enumerate<N extends number, Acc extends readonly number[] = []> = Acc['length'] extends N ? Acc[number] : Enumerate<N, [...Acc, Acc['length']]>
+export type NumberRange<Lower extends number, Upper extends number> = Exclude<Enumerate<Upper>, Enumerate<Lower>>
+
+export enum TileType {
+    EMPTY_SPACE = 0,
+    TREASURE = 1,
+    MONSTER = 2,
+    WALL = 3,
+    // An empty space known to stay free of walls, such as a floor marked by a player.
+    FLOOR = 4
+}
+
+export const NUMBER_OF_TILE_TYPES = 5
+
+export type NumberOfTileTypeRange = NumberRange<0, 5>
+export type RawDiagramRow = readonly TileType[]
+export type RawDiagram = readonly RawDiagramRow[]
+export type DiagramRow = TileType[]
+export type Diagram = DiagramRow[]
+export type Projection = readonly number[]
+export type MutableProjection = number[]
+export type ColorSet = Dictionary<number, number>
+
+export interface Coordinate {
+    x: number
+    y: number
+}
+
+export interface RuleViolation {
+    rule: string
+    coords: readonly Coordinate[]
+    message: string
+}
+
+export interface Level {
+    row_projection: Projection
+    column_projection: Projection
+    raw_diagram: RawDiagram
+}
+
+export function duplicate<T>(value: T, length: number): T[] {
+    const array = new Array<T>(length)
+
+    for (let i = 0; i < length; i += 1) {
+        if (Array.isArray(value)) {
+            array[i] = Array.from(value) as T
+        } else {
+            array[i] = value
+        }
+    }
+
+    return array
+}
+
+export function getTileType(value: NumberOfTileTypeRange): TileType {
+    switch (value) {
+        case 0:
+            return TileType.EMPTY_SPACE
+        case 1:
+            return TileType.TREASURE
+        case 2:
+            return TileType.MONSTER
+        case 3:
+            return TileType.WALL
+        case 4:
+            return TileType.FLOOR
+        default:
+            return TileType.EMPTY_SPACE
+    }
+}
@@ -0,0 +1,25 @@
+import { parentPort } from 'worker_threads'
+import { getLevelHint } from './hint.js'
+import { solve } from './index.js'
+import { createSearchState } from './search.js'
+import { HintTask, SolvingTask, WorkerMessage } from './workers.js'
+
+function postMessage(message: WorkerMessage) {
+    parentPort?.postMessage(message)
+}
+
+parentPort?.on('message', (task: SolvingTask | HintTask) => {
+    if (task.type === 'hint') {
+        postMessage({ type: 'hint', result: getLevelHint(task.level, task.marks, createSearchState(task.options)) })
+        return
+    }
+
+    postMessage({
+        type: 'result',
+        result: solve(task.level, {
+            ...task.options,
+            on_progress: task.is_reporting_progress ?
+                progress => postMessage({ type: 'progress', progress: progress }) : undefined
+        })
+    })
+})
@@ -0,0 +1,205 @@
+import { cpus } from 'os'
+import { Worker } from 'worker_threads'
+import { HintResult } from './hint.js'
+import { SolvingOptions, SolvingResult } from './index.js'
+import { CellDomain } from './propagation.js'
+import { mergeSearchStatistics, SearchProgress } from './search.js'
+import { Level } from './types.js'
+
+export type WorkerSolvingOptions = Omit<SolvingOptions, 'signal' | 'on_progress' | 'on_trace'>
+
+export interface SolvingTask {
+    type: 'solve'
+    level: Level
+    options: WorkerSolvingOptions
+    is_reporting_progress: boolean
+}
+
+export interface HintTask {
+    type: 'hint'
+    level: Level
+    marks: readonly (readonly CellDomain[])[] | null
+    options: WorkerSolvingOptions
+}
+
+export type WorkerMessage =
+    { type: 'progress', progress: SearchProgress } |
+    { type: 'result', result: SolvingResult } |
+    { type: 'hint', result: HintResult }
+
+export function getDefaultNumberOfWorkers(): number {
+    return Math.max(1, cpus().length)
+}
+
+function createSolvingWorker(): Worker {
+    return new Worker(new URL('./worker.js', import.meta.url))
+}
+
+function getWorkerSolvingOptions(options: SolvingOptions): WorkerSolvingOptions {
+    // Functions and signals can't be sent to a worker.
+    const { signal: _signal, on_progress: _on_progress, on_trace: _on_trace, ...worker_options } = options
+
+    return worker_options
+}
+
+function getCancelledResult(start_time: number): SolvingResult {
+    return {
+        status: 'cancelled',
+        solutions: [],
+        elapsed_ms: (new Date()).getTime() - start_time,
+        nodes: 0,
+        reasons: [],
+        statistics: null
+    }
+}
+
+function runSolvingTask(worker: Worker, task: SolvingTask,
+    on_progress: ((progress: SearchProgress) => void) | undefined): Promise<SolvingResult> {
+    const start_time = (new Date()).getTime()
+
+    return new Promise((resolve, reject) => {
+        const onMessage = (message: WorkerMessage) => {
+            if (message.type === 'progress') {
+                on_progress?.(message.progress)
+                return
+            }
+
+            if (message.type !== 'result') {
+                return
+            }
+
+            worker.off('message', onMessage)
+            worker.off('error', reject)
+            worker.off('exit', onExit)
+            resolve(message.result)
+        }
+        // A worker only exits before its result when it is terminated.
+        const onExit = () => resolve(getCancelledResult(start_time))
+
+        worker.on('message', onMessage)
+        worker.on('error', reject)
+        worker.on('exit', onExit)
+        worker.postMessage(task)
+    })
+}
+
+async function terminateWorkers(workers: readonly Worker[]) {
+    await Promise.all(workers.map(worker => worker.terminate()))
+}
+
+export async function solveLevelsInWorkers(levels: readonly Level[], options: SolvingOptions = {},
+    number_of_workers: number = getDefaultNumberOfWorkers(),
+    on_result: (level_i: number, result: SolvingResult) => void = () => { }): Promise<SolvingResult[]> {
+    const workers = Array.from({ length: Math.min(number_of_workers, levels.length) }, () => createSolvingWorker())
+    const results: SolvingResult[] = []
+    const onAbort = () => terminateWorkers(workers)
+    let next_level_i = 0
+
+    options.signal?.addEventListener('abort', onAbort)
+
+    try {
+        await Promise.all(workers.map(async worker => {
+            while (next_level_i < levels.length) {
+                const level_i = next_level_i
+
+                next_level_i += 1
+                results[level_i] = options.signal?.aborted ? getCancelledResult((new Date()).getTime()) :
+                    await runSolvingTask(worker, {
+                        type: 'solve',
+                        level: levels[level_i],
+                        options: getWorkerSolvingOptions(options),
+                        is_reporting_progress: options.on_progress !== undefined
+                    }, options.on_progress)
+                on_result(level_i, results[level_i])
+            }
+        }))
+    } finally {
+        options.signal?.removeEventListener('abort', onAbort)
+        await terminateWorkers(workers)
+    }
+
+    return results
+}
+
+export async function solveBranchesInWorkers(level: Level, options: SolvingOptions = {},
+    number_of_workers: number = getDefaultNumberOfWorkers()): Promise<SolvingResult> {
+    const start_time = (new Date()).getTime()
+    const workers = Array.from({ length: number_of_workers }, () => createSolvingWorker())
+    const onAbort = () => terminateWorkers(workers)
+    // The propagation only branches in two at each depth, so it is split deep enough to feed every worker.
+    const depth = (options.engine ?? 'propagation') === 'dfs' ? 0 : Math.ceil(Math.log2(number_of_workers))
+
+    options.signal?.addEventListener('abort', onAbort)
+
+    try {
+        const results = await Promise.all(workers.map(async (worker, worker_i) => {
+            const result = await runSolvingTask(worker, {
+                type: 'solve',
+                level: level,
+                options: {
+                    ...getWorkerSolvingOptions(options),
+                    branch_partition: { index: worker_i, count: number_of_workers, depth: depth }
+                },
+                is_reporting_progress: options.on_progress !== undefined
+            }, options.on_progress)
+
+            // The first solution stops the other workers.
+            if (result.status === 'solved') {
+                terminateWorkers(workers)
+            }
+
+            return result
+        }))
+        const solved_result = results.find(result => result.status === 'solved')
+
+        return {
+            status: solved_result !== undefined ? 'solved' : options.signal?.aborted ? 'cancelled' :
+                results.some(result => result.status === 'timed out') ? 'timed out' :
+                    results.some(result => result.status === 'node limit') ? 'node limit' :
+                        results.some(result => result.status === 'cancelled') ? 'cancelled' : 'failed',
+            solutions: solved_result?.solutions ?? [],
+            elapsed_ms: (new Date()).getTime() - start_time,
+            nodes: results.reduce((pre, cur) => pre + cur.nodes, 0),
+            reasons: results[0]?.reasons ?? [],
+            statistics: mergeSearchStatistics(results.map(result => result.statistics))
+        }
+    } finally {
+        options.signal?.removeEventListener('abort', onAbort)
+        await terminateWorkers(workers)
+    }
+}
+
+// The hypotheses of a hint may take as long as a search, so they run in a worker too.
+export async function findHintInWorker(level: Level, marks: readonly (readonly CellDomain[])[] | null,
+    options: SolvingOptions = {}): Promise<HintResult> {
+    const cancelled_result: HintResult = { hint: null, broken_rule: null, conflicting_coord: null, stopped: 'cancelled' }
+
+    if (options.signal?.aborted) {
+        return cancelled_result
+    }
+
+    const worker = createSolvingWorker()
+    const onAbort = () => terminateWorkers([worker])
+
+    options.signal?.addEventListener('abort', onAbort)
+
+    try {
+        return await new Promise<HintResult>((resolve, reject) => {
+            worker.on('message', (message: WorkerMessage) => {
+                if (message.type === 'hint') {
+                    resolve(message.result)
+                }
+            })
+            worker.on('error', reject)
+            // A worker only exits before its result when it is terminated.
+            worker.on('exit', () => resolve(cancelled_result))
+
+            const task: HintTask = { type: 'hint', level: level, marks: marks, options: getWorkerSolvingOptions(options) }
+
+            worker.postMessage(task)
+        })
+    } finally {
+        options.signal?.removeEventListener('abort', onAbort)
+        await terminateWorkers([worker])
+    }
+}